@@ -20,13 +20,115 @@ import {
     PlaceholderData,
     ImageConfig,
     TableConfig,
-    TableStyle
+    TableHeader,
+    TableStyleRule,
+    CellStyle,
+    TableRow,
+    TableCell,
+    TableRecord,
+    CellValue,
+    CellImage,
+    CellTable,
+    PlaceholderValue,
+    Formatter,
+    Delimiters,
+    TemplateInspection,
+    PlaceholderInfo,
+    GenerationReport,
+    GenerationResult
 } from './types';
+import { StrictModeError, describeReport } from './errors';
 
-import { replacePlaceholder, replaceAll, fixDoubleEscaping, escapeRegExp } from './utils/string';
-import { replaceXmlContent, addRelationship, extractRelationshipIds, addContentType, getImageContentType } from './utils/xml';
-import { prepareImage, PreparedImage } from './utils/image';
-import { generateTable, DEFAULT_TABLE_STYLE } from './utils/constants';
+import {
+    replacePlaceholder,
+    fixDoubleEscaping,
+    extractPlaceholders,
+    getPlaceholderName,
+    maskEscapedDelimiters,
+    unmaskEscapedDelimiters,
+    validateDelimiters,
+    unescapeXml,
+    DEFAULT_DELIMITERS
+} from './utils/string';
+import {
+    addRelationship,
+    extractRelationshipIds,
+    addContentType,
+    addContentTypeOverride,
+    getImageContentType,
+    getRelationshipsPath,
+    generateRelationship,
+    generateUniqueRelId,
+    findRelationshipId,
+    RELATIONSHIP_TYPES,
+    RELATIONSHIPS_CONTENT_TYPE,
+    EMPTY_RELATIONSHIPS_XML,
+    numberDrawings,
+    getAncestors
+} from './utils/xml';
+import {
+    prepareImage,
+    PreparedImage,
+    imageConfigFromSource,
+    fitImageSize,
+    replacePictures,
+    fitPictureFrame,
+    swapPicture,
+    EMU_PER_TWIP
+} from './utils/image';
+import { generateTable, generateInlineImage, DEFAULT_TABLE_STYLE, SummaryRowKind, SpannedCell } from './utils/constants';
+import { expandLoops, expandConditions } from './utils/template';
+import { resolvePath, parsePath, valueToString, deepMerge, isPlainObject, isRichText, isHtmlValue, isMarkdownValue, isLinkValue } from './utils/data';
+import { BUILT_IN_FORMATTERS, parseExpression, parseFormatters, applyFormatters } from './utils/format';
+import { normalizeRuns, replaceInRuns, replaceParagraph } from './utils/runs';
+import { inspectPart, TEXT_PART_REGEX } from './utils/inspect';
+import { renderRichText, needsRunRendering } from './utils/richtext';
+import {
+    parseHtml,
+    isInlineHtml,
+    getHtmlImageSources,
+    renderHtmlInline,
+    renderHtmlBlocks,
+    HtmlNode,
+    HtmlResources
+} from './utils/html';
+import { parseMarkdown } from './utils/markdown';
+import { STYLES_PATH, getStyleIds, StyleType } from './utils/styles';
+import {
+    findPrototypeRows,
+    layoutRows,
+    isTableCell,
+    isCellImage,
+    isCellParagraphs,
+    isCellTable,
+    groupRows,
+    aggregate,
+    fitColumnWidths,
+    GridCell
+} from './utils/table';
+import { getTextWidth } from './utils/section';
+import {
+    NUMBERING_PATH,
+    NUMBERING_CONTENT_TYPE,
+    EMPTY_NUMBERING_XML,
+    generateAbstractNum,
+    generateNum,
+    getNextNumberingId,
+    findAbstractNum,
+    addAbstractNum,
+    addNum
+} from './utils/numbering';
+
+/**
+ * A row of a generated table placed on the grid, with its source row and that row as a record
+ */
+interface TableEntry {
+    cells: GridCell<TableCell>[];
+    row: TableRow;
+    record: TableRecord;
+    /** Set for computed rows */
+    kind?: SummaryRowKind;
+}
 
 export class DocxGenerator {
     private options: GeneratorOptions;
@@ -37,6 +139,16 @@ export class DocxGenerator {
     private footerData: PlaceholderData = {};
     private images: ImageConfig[] = [];
     private tables: TableConfig[] = [];
+    private formatters: Record<string, Formatter> = { ...BUILT_IN_FORMATTERS };
+    private delimiters: Delimiters;
+    private report: GenerationReport | null = null;
+    private foundPlaceholders: Set<string> = new Set();
+    private failedImages: ImageConfig[] = [];
+    private htmlImages: Map<string, PreparedImage> = new Map();
+    private cellImages: Map<CellImage['image'], PreparedImage> = new Map();
+    private listDefinitions: { bullet?: number; ordered?: number } = {};
+    private styleIds: Map<StyleType, Map<string, string>> = new Map();
+    private currentPart: string = 'word/document.xml';
     private tempDir: string;
 
     /**
@@ -46,6 +158,8 @@ export class DocxGenerator {
     constructor(options: GeneratorOptions = {}) {
         this.options = options;
         this.tempDir = options.tempDir || os.tmpdir();
+        this.delimiters = options.delimiters || DEFAULT_DELIMITERS;
+        validateDelimiters(this.delimiters);
     }
 
     /**
@@ -73,9 +187,63 @@ export class DocxGenerator {
         }
     }
 
+    /**
+     * Load a template and list the placeholders it expects
+     * @param source - Path to template file or Buffer containing template
+     * @param options - Generator options (e.g. custom delimiters)
+     * @returns Every placeholder with its kind, part and location
+     */
+    static async inspectTemplate(source: string | Buffer, options: GeneratorOptions = {}): Promise<TemplateInspection> {
+        const generator = new DocxGenerator(options);
+        await generator.loadTemplate(source);
+        return generator.inspect();
+    }
+
+    /**
+     * List the placeholders in the loaded template, in the body, headers,
+     * footers, footnotes, endnotes and comments. Table and image placeholders
+     * are recognised from the tables and images added so far, so call this
+     * before generate().
+     * @returns Every placeholder with its kind, part and location
+     * 
+     * @example
+     * ```typescript
+     * const { placeholders } = generator.inspect();
+     * const missing = placeholders.filter(p => p.kind === 'text' && !(p.path in data));
+     * ```
+     */
+    inspect(): TemplateInspection {
+        if (!this.templateLoaded || !this.zip) {
+            throw new Error('No template loaded. Call loadTemplate() first.');
+        }
+
+        const tables = this.tables.map(table => getPlaceholderName(table.placeholder, this.delimiters));
+        const images = this.images.map(image => getPlaceholderName(image.placeholder, this.delimiters));
+        const partOrder = ['document', 'header', 'footer', 'footnotes', 'endnotes', 'comments'];
+        const rank = (name: string): number => partOrder.findIndex(prefix => name.startsWith(`word/${prefix}`));
+
+        const parts = this.zip.getEntries()
+            .map(entry => entry.entryName)
+            .filter(name => TEXT_PART_REGEX.test(name))
+            .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b, undefined, { numeric: true }));
+
+        const placeholders = parts.flatMap(part => {
+            const xml = maskEscapedDelimiters(this.zip!.getEntry(part)!.getData().toString('utf8'), this.delimiters);
+            return inspectPart(xml, part, {
+                delimiters: this.delimiters,
+                tables,
+                images,
+                rawNames: [...Object.keys(this.data), ...tables, ...images]
+            });
+        });
+
+        return { parts, placeholders };
+    }
+
     /**
      * Set placeholder data for document body
-     * @param data - Key-value pairs where key is placeholder name and value is replacement text
+     * @param data - Key-value pairs where key is placeholder name and value is replacement text,
+     * a nested object addressed with dot-paths, or an array for a {{#key}}...{{/key}} block
      * @returns this for method chaining
      * 
      * @example
@@ -83,7 +251,9 @@ export class DocxGenerator {
      * generator.setData({
      *   companyName: 'Acme Corp',
      *   productName: 'Widget Pro',
-     *   date: '2026-01-09'
+     *   date: new Date(2026, 0, 9),
+     *   customer: { address: { city: 'Berlin' } },
+     *   items: [{ name: 'Widget A' }, { name: 'Widget B' }]
      * });
      * ```
      */
@@ -94,21 +264,21 @@ export class DocxGenerator {
 
     /**
      * Set placeholder data for document header
-     * @param data - Key-value pairs for header placeholders
+     * @param data - Key-value pairs for header placeholders, merged deeply with earlier calls
      * @returns this for method chaining
      */
     setHeader(data: PlaceholderData): this {
-        this.headerData = { ...this.headerData, ...data };
+        this.headerData = deepMerge(this.headerData, data);
         return this;
     }
 
     /**
      * Set placeholder data for document footer
-     * @param data - Key-value pairs for footer placeholders
+     * @param data - Key-value pairs for footer placeholders, merged deeply with earlier calls
      * @returns this for method chaining
      */
     setFooter(data: PlaceholderData): this {
-        this.footerData = { ...this.footerData, ...data };
+        this.footerData = deepMerge(this.footerData, data);
         return this;
     }
 
@@ -144,21 +314,250 @@ export class DocxGenerator {
      *   ],
      *   rows: [['Widget A', '10'], ['Widget B', '5']]
      * });
+     *
+     * // Repeat the template table's {{item.name}} / {{item.qty}} row
+     * generator.addTable({
+     *   placeholder: 'item',
+     *   prototypeRow: true,
+     *   rows: [{ name: 'Widget A', qty: 10 }, { name: 'Widget B', qty: 5 }]
+     * });
      * ```
      */
     addTable(config: TableConfig): this {
+        if (!config.prototypeRow && !config.headers) {
+            throw new Error(`Table "${config.placeholder}" needs headers unless it fills a prototype row.`);
+        }
         this.tables.push(config);
         return this;
     }
 
+    /**
+     * Register a formatter for use in placeholder expressions
+     * @param name - Name used in templates (e.g. "initials" for {{name | initials}})
+     * @param formatter - Function receiving the value and any arguments
+     * @returns this for method chaining
+     * 
+     * @example
+     * ```typescript
+     * generator.registerFormatter('initials', value =>
+     *   String(value).split(' ').map(part => part[0]).join('')
+     * );
+     * ```
+     */
+    registerFormatter(name: string, formatter: Formatter): this {
+        this.formatters[name] = formatter;
+        return this;
+    }
+
+    /**
+     * Keep or remove {{#if}} / {{#unless}} blocks in XML content
+     */
+    private processConditions(content: string, data: PlaceholderData): string {
+        return expandConditions(content, data, this.delimiters);
+    }
+
+    /**
+     * Replace a placeholder with a value. HTML, Markdown, rich text, multi-line text
+     * and text with leading or trailing spaces split the host run; anything else
+     * is replaced in place.
+     */
+    private replaceValue(content: string, name: string, value: PlaceholderValue | undefined): string {
+        const nodes = this.parseMarkup(value);
+        if (nodes) {
+            return this.replaceHtml(content, name, nodes);
+        }
+
+        // Split the host run so unset formatting is inherited from the template
+        if (isRichText(value)) {
+            return replaceInRuns(content, name, context => renderRichText(value, context), this.delimiters);
+        }
+
+        const text = valueToString(value);
+        if (needsRunRendering(text)) {
+            return replaceInRuns(content, name, context => renderRichText([{ text }], context), this.delimiters);
+        }
+
+        return replacePlaceholder(content, name, text, this.delimiters);
+    }
+
+    /**
+     * Check whether a value is HTML, Markdown or a link, rendered as Word content
+     */
+    private isMarkupValue(value: PlaceholderValue | undefined): boolean {
+        return isHtmlValue(value) || isMarkdownValue(value) || isLinkValue(value);
+    }
+
+    /**
+     * Parse an HTML, Markdown or link value, or return null for any other value
+     */
+    private parseMarkup(value: PlaceholderValue | undefined): HtmlNode[] | null {
+        if (isHtmlValue(value)) return parseHtml(value.html);
+        if (isMarkdownValue(value)) return parseMarkdown(value.markdown);
+        if (isLinkValue(value)) {
+            return [{ tag: 'a', attributes: { href: value.link }, children: [value.text ?? value.link] }];
+        }
+        return null;
+    }
+
+    /**
+     * Replace a placeholder with converted HTML or Markdown. Inline content stays
+     * in the host paragraph; paragraphs, lists and tables replace it.
+     */
+    private replaceHtml(content: string, name: string, nodes: HtmlNode[]): string {
+        const resources = this.getHtmlResources();
+
+        if (isInlineHtml(nodes)) {
+            return replaceInRuns(content, name, context => renderHtmlInline(nodes, context, resources), this.delimiters);
+        }
+        return replaceParagraph(content, name, context => renderHtmlBlocks(nodes, context, resources), this.delimiters);
+    }
+
+    /**
+     * Links, images and lists for HTML in the part being rendered
+     */
+    private getHtmlResources(): HtmlResources {
+        return {
+            hyperlink: url => this.addPartRelationship(this.currentPart, RELATIONSHIP_TYPES.hyperlink, url, true),
+            image: (source, width, height) => {
+                const image = this.htmlImages.get(source);
+                if (!image) return null;
+                const size = fitImageSize(image.dimensions, { width, height });
+                return generateInlineImage(this.getImageRelationshipId(image), size.width, size.height, image.fileName);
+            },
+            list: ordered => this.addList(ordered),
+            style: (name, type) => this.getStyleId(name, type)
+        };
+    }
+
+    /**
+     * Look up the ID of a style in the template by its name
+     */
+    private getStyleId(name: string, type: StyleType = 'paragraph'): string | null {
+        return this.getStyleIds(type).get(name.toLowerCase()) ?? null;
+    }
+
+    /**
+     * Map the names of the template's styles of one type to their IDs, reading styles.xml once
+     */
+    private getStyleIds(type: StyleType): Map<string, string> {
+        let styleIds = this.styleIds.get(type);
+        if (!styleIds) {
+            const stylesEntry = this.zip!.getEntry(STYLES_PATH);
+            styleIds = getStyleIds(stylesEntry ? stylesEntry.getData().toString('utf8') : '', type);
+            this.styleIds.set(type, styleIds);
+        }
+        return styleIds;
+    }
+
+    /**
+     * Look up a table style in the template by its name or ID
+     */
+    private getTableStyleId(nameOrId: string): string {
+        const styleId = this.getStyleId(nameOrId, 'table')
+            ?? [...this.getStyleIds('table').values()].find(id => id === nameOrId);
+        if (!styleId) {
+            throw new Error(`Table style "${nameOrId}" not found in the template's styles.`);
+        }
+        return styleId;
+    }
+
+    /**
+     * Add a relationship to a part's .rels file, reusing an existing one with the same target
+     * @returns The relationship ID
+     */
+    private addPartRelationship(part: string, type: string, target: string, external: boolean = false): string {
+        const relsPath = getRelationshipsPath(part);
+        const relsEntry = this.zip!.getEntry(relsPath);
+        let relsContent = relsEntry ? relsEntry.getData().toString('utf8') : EMPTY_RELATIONSHIPS_XML;
+
+        const existingId = findRelationshipId(relsContent, type, target);
+        if (existingId) return existingId;
+
+        const id = generateUniqueRelId(extractRelationshipIds(relsContent));
+        relsContent = addRelationship(relsContent, generateRelationship(id, type, target, external));
+        this.zip!.addFile(relsPath, Buffer.from(relsContent, 'utf8'));
+        if (!relsEntry) {
+            this.addDefaultContentTypes([['rels', RELATIONSHIPS_CONTENT_TYPE]]);
+        }
+        return id;
+    }
+
+    /**
+     * Get the relationship ID of an image in the part being rendered. Images are
+     * registered in document.xml.rels up front; headers and footers get their own
+     * relationship to the same media file the first time they show the image.
+     */
+    private getImageRelationshipId(image: PreparedImage): string {
+        return this.addPartRelationship(this.currentPart, RELATIONSHIP_TYPES.image, `media/${image.fileName}`);
+    }
+
+    /**
+     * Add a numbering instance for a new list, creating word/numbering.xml if needed
+     * @returns The numbering ID to use in <w:numId>
+     */
+    private addList(ordered: boolean): number {
+        const numberingEntry = this.zip!.getEntry(NUMBERING_PATH);
+        let numberingXml = numberingEntry ? numberingEntry.getData().toString('utf8') : '';
+
+        if (!numberingXml) {
+            numberingXml = EMPTY_NUMBERING_XML;
+            this.addPartRelationship('word/document.xml', RELATIONSHIP_TYPES.numbering, 'numbering.xml');
+
+            const contentTypesEntry = this.zip!.getEntry('[Content_Types].xml');
+            if (contentTypesEntry) {
+                const contentTypesXml = addContentTypeOverride(
+                    contentTypesEntry.getData().toString('utf8'),
+                    `/${NUMBERING_PATH}`,
+                    NUMBERING_CONTENT_TYPE
+                );
+                this.zip!.updateFile('[Content_Types].xml', Buffer.from(contentTypesXml, 'utf8'));
+            }
+        }
+
+        // One abstract definition per list kind (the template's own if it has one),
+        // one numbering instance per list
+        const kind = ordered ? 'ordered' : 'bullet';
+        let abstractNumId = this.listDefinitions[kind] ?? findAbstractNum(numberingXml, ordered) ?? undefined;
+        if (abstractNumId === undefined) {
+            abstractNumId = getNextNumberingId(numberingXml, 'abstractNum');
+            numberingXml = addAbstractNum(numberingXml, generateAbstractNum(abstractNumId, ordered));
+        }
+        this.listDefinitions[kind] = abstractNumId;
+
+        const numId = getNextNumberingId(numberingXml, 'num');
+        numberingXml = addNum(numberingXml, generateNum(numId, abstractNumId, ordered));
+        this.zip!.addFile(NUMBERING_PATH, Buffer.from(numberingXml, 'utf8'));
+
+        return numId;
+    }
+
     /**
      * Process placeholders in XML content
      */
     private processPlaceholders(content: string, data: PlaceholderData): string {
-        let result = content;
+        // Repeat {{#key}}...{{/key}} blocks, each copy rendered with its own record
+        let result = expandLoops(content, data, (fragment, scope) =>
+            this.processPlaceholders(this.processConditions(fragment, scope), scope),
+            this.delimiters
+        );
+
+        // Resolve {{path | formatter}} placeholders, including nested ones like {{customer.address.city}}
+        for (const name of extractPlaceholders(result, this.delimiters)) {
+            const expression = parseExpression(name);
+            const resolved = resolvePath(data, expression.path);
+            if (resolved === undefined && expression.formatters.length === 0) continue;
 
+            const value = applyFormatters(resolved, expression.formatters, this.formatters);
+            if (isPlainObject(value) && !this.isMarkupValue(value)) continue;
+            result = this.replaceValue(result, name, value);
+        }
+
+        // Top-level keys may also appear without braces or split across runs
+        // (the current list item is only addressed as {{.}})
         for (const [key, value] of Object.entries(data)) {
-            result = replacePlaceholder(result, key, value);
+            if (key === '.' || value === undefined || Array.isArray(value)) continue;
+            if (isPlainObject(value) && !this.isMarkupValue(value)) continue;
+            result = this.replaceValue(result, key, value);
         }
 
         // Fix any double escaping issues
@@ -174,33 +573,307 @@ export class DocxGenerator {
         let result = content;
 
         for (const table of this.tables) {
-            const headers = table.headers.map(h => ({
-                name: h.name,
-                width: h.width
-            }));
-
-            const style = {
-                ...DEFAULT_TABLE_STYLE,
-                ...table.style
+            if (table.prototypeRow) continue;
+
+            // Replace the paragraph holding the placeholder with the table
+            const name = getPlaceholderName(table.placeholder, this.delimiters);
+            const tableXml = this.renderTable(table, getTextWidth(result, result.indexOf(name)));
+            const replaced = replaceParagraph(result, name, tableXml, this.delimiters);
+            if (replaced !== result) this.foundPlaceholders.add(name);
+            result = replaced;
+        }
+
+        return result;
+    }
+
+    /**
+     * Generate a table's XML. Automatic column widths fill the given text width.
+     */
+    private renderTable(table: CellTable['table'], textWidth: number): string {
+        if (!table.headers) {
+            throw new Error('Tables in table cells need headers.');
+        }
+
+        const columns = table.headers;
+        const headers = columns.map(h => ({
+            name: h.name,
+            width: h.width,
+            align: h.align,
+            style: h.style
+        }));
+
+        // A template style decides everything the table's own style leaves unset
+        const style = table.templateStyle
+            ? {
+                ...table.style,
+                styleId: this.getTableStyleId(table.templateStyle),
+                look: { firstRow: true, lastRow: !!table.footer, bandedRows: true, ...table.look }
+            }
+            : { ...DEFAULT_TABLE_STYLE, ...table.style, look: table.look };
+
+        // Place cells on the grid: array rows fill the free columns in order, records go by key
+        const grid = layoutRows(table.rows.map(row => Array.isArray(row)
+            ? { cells: row.map(cell => isTableCell(cell) ? cell : { value: cell }), byColumn: false }
+            : { cells: columns.map(column => this.getTableCell(row, column.key)), byColumn: true }
+        ), columns.length, cell => cell);
+
+        const dataRows: TableEntry[] = grid.map((cells, index) => {
+            const row = table.rows[index];
+            // Rules, groups and aggregates see array rows as records keyed by header key
+            const record = Array.isArray(row)
+                ? Object.fromEntries(cells.map(({ cell, column }) => [columns[column].key, cell?.value]))
+                : row;
+            return { cells, row, record };
+        });
+
+        const entries = this.addSummaryRows(table, columns, dataRows);
+
+        const rows = entries.map(({ cells, row, record, kind }) => cells.map(({ cell, column, colSpan, vMerge }) => {
+            if (vMerge === 'continue') return { text: '', colSpan, vMerge };
+            // Summary cells already hold their text
+            if (kind) return { text: String(cell?.value ?? ''), colSpan, vMerge };
+            return {
+                text: this.getCellText(cell?.value, columns[column], row),
+                content: this.getCellContent(cell?.value),
+                colSpan,
+                vMerge,
+                style: { ...this.getRuleStyle(style.rules, cell?.value, columns[column], record), ...cell?.style }
             };
+        }));
 
-            const tableXml = generateTable(headers, table.rows, style);
+        const headerRows = table.headerRows && layoutRows(
+            table.headerRows.map(cells => ({ cells, byColumn: false })),
+            columns.length,
+            cell => cell
+        ).map(cells => cells.map(({ cell, colSpan, vMerge }) => ({
+            name: vMerge === 'continue' ? '' : cell?.name ?? '',
+            colSpan,
+            vMerge
+        })));
 
-            // Escape placeholder for regex
-            const escapedPlaceholder = escapeRegExp(table.placeholder);
+        if (style.autoWidth) {
+            const widths = this.getAutoWidths(columns, entries, rows, textWidth);
+            headers.forEach((header, index) => { header.width = widths[index]; });
+        }
 
-            // 1. Try to replace wrapping paragraph for {{placeholder}}
-            // Matches: <w:p ...> ... {{placeholder}} ... </w:p>
-            const placeholderRegex = new RegExp(`<w:p[^>]*>(?:(?!<\\/w:p>).)*?{{${escapedPlaceholder}}}(?:(?!<\\/w:p>).)*?<\\/w:p>`, 'gs');
+        return generateTable(headers, rows, style, headerRows, entries.map(entry => entry.kind));
+    }
 
-            if (placeholderRegex.test(result)) {
-                result = result.replace(placeholderRegex, tableXml);
-            } else {
-                // Fallback: simple replacement
-                result = replaceAll(result, `{{${table.placeholder}}}`, tableXml);
+    /**
+     * Get a record row's cell by key or dot-path. Records may hold cell
+     * contents such as images, which resolvePath hands back as they are.
+     */
+    private getTableCell(row: TableRecord, key: string): TableCell {
+        const value = resolvePath(row as PlaceholderData, key) as CellValue | TableCell | undefined;
+        return isTableCell(value) ? value : { value };
+    }
+
+    /**
+     * Render an image, paragraphs, rich text or a nested table in a table cell,
+     * or return undefined for values shown as text
+     */
+    private getCellContent(value: CellValue | undefined): SpannedCell['content'] {
+        if (isCellImage(value)) {
+            const image = this.cellImages.get(value.image);
+            if (!image) return undefined;
+
+            // Shrink images that are wider than the cell
+            const { width, height } = image;
+            return (context, cellWidth) => {
+                const scale = cellWidth > 0 ? Math.min(1, cellWidth * EMU_PER_TWIP / width) : 1;
+                const drawing = generateInlineImage(image.id, Math.round(width * scale), Math.round(height * scale), image.fileName);
+                return `<w:p>${context.paragraphProperties}<w:r>${context.runProperties}${drawing}</w:r></w:p>`;
+            };
+        }
+        if (isCellParagraphs(value)) {
+            return context => value.paragraphs.map(paragraph => {
+                const runs = typeof paragraph === 'string' ? [{ text: paragraph }] : paragraph;
+                return `<w:p>${context.paragraphProperties}${renderRichText(runs, context)}</w:p>`;
+            }).join('');
+        }
+        if (isCellTable(value)) {
+            return (context, cellWidth) => this.renderTable(value.table, cellWidth);
+        }
+        if (isRichText(value)) {
+            return context => `<w:p>${context.paragraphProperties}${renderRichText(value, context)}</w:p>`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Size a generated table's columns without a width by the length of their
+     * text, to fill the width of the section's text
+     */
+    private getAutoWidths(columns: TableHeader[], entries: TableEntry[], rows: { text: string }[][], textWidth: number): number[] {
+        const length = (text: string) => Math.max(...text.split('\n').map(line => line.length));
+        const lengths = columns.map(column => length(column.name));
+
+        entries.forEach((entry, row) => entry.cells.forEach((cell, index) => {
+            // Cells spanning several columns don't say how to share them
+            if (cell.colSpan === 1) {
+                lengths[cell.column] = Math.max(lengths[cell.column], length(rows[row][index].text));
+            }
+        }));
+
+        return fitColumnWidths(columns.map(column => column.width), lengths, textWidth);
+    }
+
+    /**
+     * Add a table's computed rows: a header and subtotals around each group,
+     * and a footer with the aggregates over all rows
+     */
+    private addSummaryRows(table: CellTable['table'], columns: TableHeader[], dataRows: TableEntry[]): TableEntry[] {
+        const entries: TableEntry[] = [];
+        const label = (option: boolean | string | undefined, fallback: string) =>
+            typeof option === 'string' ? option : fallback;
+
+        if (table.groupBy) {
+            const key = table.groupBy;
+            // Array rows are records keyed by header key, which may hold dots
+            const groups = groupRows(dataRows, ({ row, record }) => {
+                const cell = Array.isArray(row) ? record[key] : this.getTableCell(record, key);
+                return isTableCell(cell) ? cell.value : cell;
+            });
+
+            for (const [value, group] of groups) {
+                const records = group.map(entry => entry.record);
+                const text = table.groupLabel ? table.groupLabel(value, records) : this.getCellText(value, { name: '', key });
+                entries.push({
+                    cells: [{ cell: { value: text }, column: 0, colSpan: columns.length }],
+                    row: [],
+                    record: {},
+                    kind: 'group'
+                });
+                entries.push(...group);
+                if (table.subtotals) {
+                    entries.push(this.getSummaryRow('subtotal', label(table.subtotals, 'Subtotal'), columns, group));
+                }
+            }
+        } else {
+            entries.push(...dataRows);
+        }
+
+        if (table.footer) {
+            entries.push(this.getSummaryRow('footer', label(table.footer, 'Total'), columns, dataRows));
+        }
+
+        return entries;
+    }
+
+    /**
+     * Get a subtotal or footer row: the label in the first column,
+     * unless that column has an aggregate, and each column's aggregate
+     */
+    private getSummaryRow(kind: SummaryRowKind, label: string, columns: TableHeader[], rows: TableEntry[]): TableEntry {
+        const records = rows.map(entry => entry.record);
+
+        const results = columns.map((column, index) => {
+            if (!column.aggregate) return undefined;
+
+            // Read the cells on the grid, so that merged cells count once
+            const values = rows
+                .map(entry => entry.cells.find(cell => cell.column === index && cell.vMerge !== 'continue')?.cell?.value)
+                .filter((value): value is CellValue => value !== undefined && value !== null && value !== '');
+            return typeof column.aggregate === 'function'
+                ? column.aggregate(values, records)
+                : aggregate(column.aggregate, values);
+        });
+        const aggregates: TableRecord = Object.fromEntries(
+            columns.flatMap((column, index) => column.aggregate ? [[column.key, results[index]]] : [])
+        );
+
+        // Built-in aggregates in columns without a format are written as numbers, e.g. 1.67 for an average
+        const formatted = results.map((result, index) =>
+            typeof columns[index].aggregate === 'string' && !columns[index].format && typeof result === 'number'
+                ? BUILT_IN_FORMATTERS.number(result, Number.isInteger(result) ? '0' : '2')
+                : result
+        );
+
+        const cells = columns.map((column, index) => ({
+            cell: {
+                value: column.aggregate
+                    ? this.getCellText(formatted[index], column, aggregates)
+                    : index === 0 ? label : ''
+            },
+            column: index,
+            colSpan: 1
+        }));
+
+        return { cells, row: [], record: aggregates, kind };
+    }
+
+    /**
+     * Get the style of the rules matching a table cell, later rules winning
+     */
+    private getRuleStyle(
+        rules: TableStyleRule[] = [],
+        value: CellValue | undefined,
+        column: TableHeader,
+        record: TableRecord
+    ): CellStyle {
+        return rules
+            .filter(rule => (rule.column === undefined || rule.column === column.key) && rule.when(value, record))
+            .reduce<CellStyle>((merged, rule) => ({ ...merged, ...rule.style }), {});
+    }
+
+    /**
+     * Get the text of a table cell value, run through the column's format.
+     * Images and tables have none; paragraphs give their lines.
+     */
+    private getCellText(value: CellValue | undefined, column: TableHeader, row: TableRow = []): string {
+        if (isCellImage(value) || isCellTable(value)) return '';
+        if (isCellParagraphs(value)) return value.paragraphs.map(paragraph => valueToString(paragraph)).join('\n');
+
+        if (column.emptyValue !== undefined && (value === undefined || value === null || value === '')) {
+            return column.emptyValue;
+        }
+
+        if (typeof column.format === 'function') {
+            return column.format(value, row);
+        }
+        if (column.format) {
+            return valueToString(applyFormatters(value, parseFormatters(column.format), this.formatters));
+        }
+        return valueToString(value);
+    }
+
+    /**
+     * Fill template tables: repeat each prototype row for its records, rendering
+     * the copies with the record in scope next to the rest of the data.
+     * A table left without rows is removed, as Word won't open an empty <w:tbl>.
+     */
+    private fillTemplateTables(content: string): string {
+        let result = content;
+
+        for (const table of this.tables) {
+            if (!table.prototypeRow) continue;
+
+            const name = getPlaceholderName(table.placeholder, this.delimiters);
+            const range = findPrototypeRows(result, name, this.delimiters);
+            if (!range) continue;
+            this.foundPlaceholders.add(name);
+
+            const prototype = result.slice(range.start, range.end);
+            const rows = table.rows.map(row => {
+                // Array rows are named by the header keys
+                const record = Array.isArray(row)
+                    ? Object.fromEntries((table.headers || []).map((header, index) => {
+                        const cell = row[index];
+                        return [header.key, isTableCell(cell) ? cell.value : cell];
+                    }))
+                    : row;
+                // Prototype rows are filled through placeholders, so records hold placeholder values
+                const scope = { ...this.data, [name]: record as PlaceholderData };
+                return this.processPlaceholders(this.processConditions(prototype, scope), scope);
+            });
 
-                // Also try replacing raw placeholder if provided
-                result = replaceAll(result, table.placeholder, tableXml);
+            const tableXml = getAncestors(result, range.start).filter(element => element.name === 'w:tbl').pop();
+            const isEmptied = rows.length === 0 && tableXml !== undefined &&
+                !/<w:tr[\s>]/.test(result.slice(tableXml.start, range.start) + result.slice(range.end, tableXml.end));
+            if (isEmptied) {
+                result = result.slice(0, tableXml.start) + result.slice(tableXml.end);
+            } else {
+                result = result.slice(0, range.start) + rows.join('') + result.slice(range.end);
             }
         }
 
@@ -208,9 +881,10 @@ export class DocxGenerator {
     }
 
     /**
-     * Process images and add them to the document
+     * Process images and add them to the document.
+     * Images that fail to load are left out and listed in the report.
      */
-    private async processImages(): Promise<PreparedImage[]> {
+    private async processImages(report: GenerationReport): Promise<PreparedImage[]> {
         if (!this.zip || this.images.length === 0) {
             return [];
         }
@@ -222,17 +896,130 @@ export class DocxGenerator {
 
         // Prepare all images
         const preparedImages: PreparedImage[] = [];
+        this.failedImages = [];
         for (let i = 0; i < this.images.length; i++) {
-            const prepared = await prepareImage(this.images[i], i, [
-                ...existingIds,
-                ...preparedImages.map(p => p.id)
-            ]);
-            preparedImages.push(prepared);
+            try {
+                const prepared = await prepareImage(this.images[i], i, [
+                    ...existingIds,
+                    ...preparedImages.map(p => p.id)
+                ], [...this.getMediaFileNames(), ...preparedImages.map(p => p.fileName)]);
+                preparedImages.push(prepared);
+            } catch (error) {
+                this.failedImages.push(this.images[i]);
+                report.failedImages.push({
+                    placeholder: this.images[i].placeholder,
+                    error: (error as Error).message
+                });
+            }
         }
 
         return preparedImages;
     }
 
+    /**
+     * Load the images referenced by <img> tags in HTML values and images in Markdown values.
+     * URLs and file paths are only loaded when allowImageSource allows them.
+     */
+    private async processHtmlImages(report: GenerationReport, preparedImages: PreparedImage[]): Promise<PreparedImage[]> {
+        this.htmlImages = new Map();
+        if (!this.zip) return [];
+
+        const sources = new Set(
+            this.collectMarkup([this.data, this.headerData, this.footerData]).flatMap(getHtmlImageSources)
+        );
+        if (sources.size === 0) return [];
+
+        const relsEntry = this.zip.getEntry('word/_rels/document.xml.rels');
+        const existingIds = extractRelationshipIds(relsEntry ? relsEntry.getData().toString('utf8') : '');
+
+        for (const source of sources) {
+            if (!/^data:/i.test(source) && !this.options.allowImageSource?.(source)) {
+                report.blockedImages.push(source);
+                continue;
+            }
+            try {
+                const prepared = await prepareImage(imageConfigFromSource(source), this.images.length + this.htmlImages.size, [
+                    ...existingIds,
+                    ...preparedImages.map(p => p.id),
+                    ...[...this.htmlImages.values()].map(p => p.id)
+                ], [
+                    ...this.getMediaFileNames(),
+                    ...preparedImages.map(p => p.fileName),
+                    ...[...this.htmlImages.values()].map(p => p.fileName)
+                ]);
+                this.htmlImages.set(source, prepared);
+            } catch (error) {
+                report.failedImages.push({ placeholder: source, error: (error as Error).message });
+            }
+        }
+
+        return [...this.htmlImages.values()];
+    }
+
+    /**
+     * Load the images in the cells of generated tables, nested tables included
+     */
+    private async processCellImages(report: GenerationReport, loadedImages: PreparedImage[]): Promise<PreparedImage[]> {
+        this.cellImages = new Map();
+        if (!this.zip) return [];
+
+        const relsEntry = this.zip.getEntry('word/_rels/document.xml.rels');
+        const existingIds = extractRelationshipIds(relsEntry ? relsEntry.getData().toString('utf8') : '');
+
+        for (const table of this.tables) {
+            if (table.prototypeRow) continue;
+
+            for (const image of this.collectCellImages(table)) {
+                if (this.cellImages.has(image)) continue;
+                try {
+                    const index = this.images.length + this.htmlImages.size + this.cellImages.size;
+                    const prepared = await prepareImage({ placeholder: table.placeholder, ...image }, index, [
+                        ...existingIds,
+                        ...loadedImages.map(p => p.id),
+                        ...[...this.cellImages.values()].map(p => p.id)
+                    ], [
+                        ...this.getMediaFileNames(),
+                        ...loadedImages.map(p => p.fileName),
+                        ...[...this.cellImages.values()].map(p => p.fileName)
+                    ]);
+                    this.cellImages.set(image, prepared);
+                } catch (error) {
+                    report.failedImages.push({ placeholder: table.placeholder, error: (error as Error).message });
+                }
+            }
+        }
+
+        return [...this.cellImages.values()];
+    }
+
+    /**
+     * Find the images shown in a table's cells and in the tables nested in them
+     */
+    private collectCellImages(table: CellTable['table']): CellImage['image'][] {
+        const columns = table.headers ?? [];
+
+        return table.rows.flatMap(row => {
+            const cells = Array.isArray(row) ? row : columns.map(column => this.getTableCell(row, column.key));
+            return cells.flatMap(cell => {
+                const value = isTableCell(cell) ? cell.value : cell;
+                if (isCellImage(value)) return [value.image];
+                if (isCellTable(value)) return this.collectCellImages(value.table);
+                return [];
+            });
+        });
+    }
+
+    /**
+     * Parse all { html } and { markdown } values in data
+     */
+    private collectMarkup(value: PlaceholderValue | undefined): HtmlNode[][] {
+        const nodes = this.parseMarkup(value);
+        if (nodes) return [nodes];
+        if (Array.isArray(value)) return value.flatMap(item => this.collectMarkup(item));
+        if (isPlainObject(value)) return Object.values(value).flatMap(item => this.collectMarkup(item));
+        return [];
+    }
+
     /**
      * Update document relationships with images
      */
@@ -254,23 +1041,34 @@ export class DocxGenerator {
         }
 
         // Update [Content_Types].xml for image types
+        const extensions = new Set(images.map(img => img.extension));
+        this.addDefaultContentTypes([...extensions].map(ext => [ext, getImageContentType(ext)]));
+    }
+
+    /**
+     * Add content types by file extension to [Content_Types].xml
+     */
+    private addDefaultContentTypes(types: [string, string][]): void {
         const contentTypesPath = '[Content_Types].xml';
-        const contentTypesEntry = this.zip.getEntry(contentTypesPath);
+        const contentTypesEntry = this.zip!.getEntry(contentTypesPath);
+        if (!contentTypesEntry) return;
 
-        if (contentTypesEntry) {
-            let contentTypesXml = contentTypesEntry.getData().toString('utf8');
+        let contentTypesXml = contentTypesEntry.getData().toString('utf8');
+        for (const [extension, contentType] of types) {
+            contentTypesXml = addContentType(contentTypesXml, extension, contentType);
+        }
 
-            const extensions = new Set(images.map(img => img.extension));
-            for (const ext of extensions) {
-                contentTypesXml = addContentType(
-                    contentTypesXml,
-                    ext,
-                    getImageContentType(ext)
-                );
-            }
+        this.zip!.updateFile(contentTypesPath, Buffer.from(contentTypesXml, 'utf8'));
+    }
 
-            this.zip.updateFile(contentTypesPath, Buffer.from(contentTypesXml, 'utf8'));
-        }
+    /**
+     * Get the names of the template's media files, which new images must not overwrite
+     */
+    private getMediaFileNames(): string[] {
+        return this.zip!.getEntries()
+            .map(entry => entry.entryName)
+            .filter(name => name.startsWith('word/media/'))
+            .map(name => name.slice('word/media/'.length));
     }
 
     /**
@@ -286,22 +1084,129 @@ export class DocxGenerator {
     }
 
     /**
-     * Replace image placeholders in document content
+     * Replace image placeholders in document content. The placeholders of images
+     * that failed to load are removed, as the report lists those images.
      */
     private replaceImagePlaceholders(content: string, images: PreparedImage[]): string {
         let result = content;
 
         for (const image of images) {
-            // Replace {{placeholder}} with image XML
-            result = replaceAll(result, image.placeholder, image.inlineXml);
-            result = replaceAll(result, `{{${image.placeholder}}}`, image.inlineXml);
+            const name = getPlaceholderName(image.placeholder, this.delimiters);
+            if (image.pictureFit) {
+                result = this.replaceTemplatePictures(result, name, image);
+                continue;
+            }
+
+            // Put the drawing in its own run, keeping the surrounding text and formatting
+            const replaced = replaceInRuns(result, name, context => {
+                // Parts other than the document refer to the image by their own relationship ID
+                const id = this.getImageRelationshipId(image);
+                const inlineXml = image.inlineXml.replace(`r:embed="${image.id}"`, `r:embed="${id}"`);
+                return `<w:r>${context.runProperties}${inlineXml}</w:r>`;
+            }, this.delimiters);
+            if (replaced !== result) this.foundPlaceholders.add(name);
+            result = replaced;
+        }
+
+        for (const image of this.failedImages) {
+            if (image.replacePicture) continue;
+            result = replaceInRuns(result, getPlaceholderName(image.placeholder, this.delimiters), () => '', this.delimiters);
         }
 
         return result;
     }
 
     /**
-     * Generate the final DOCX document as a Buffer
+     * Show an image in the template pictures labelled with its placeholder name
+     */
+    private replaceTemplatePictures(content: string, name: string, image: PreparedImage): string {
+        const matches = (label: string) => getPlaceholderName(unescapeXml(label), this.delimiters) === name;
+
+        return replacePictures(content, matches, drawing => {
+            this.foundPlaceholders.add(name);
+            const size = image.pictureFit === 'contain' && image.dimensions
+                ? fitPictureFrame(drawing, image.dimensions) ?? undefined
+                : undefined;
+            return swapPicture(drawing, this.getImageRelationshipId(image), size);
+        });
+    }
+
+    /**
+     * Top-level keys of the body, header and footer data
+     */
+    private getDataKeys(): string[] {
+        return [...new Set([
+            ...Object.keys(this.data),
+            ...Object.keys(this.headerData),
+            ...Object.keys(this.footerData)
+        ])];
+    }
+
+    /**
+     * Record the data keys a part refers to, before it is rendered
+     */
+    private collectUsedKeys(xml: string, part: string, usedKeys: Set<string>): void {
+        const placeholders = inspectPart(xml, part, {
+            delimiters: this.delimiters,
+            rawNames: this.getDataKeys()
+        });
+
+        for (const placeholder of placeholders) {
+            usedKeys.add(placeholder.path);
+            const [key] = parsePath(placeholder.path);
+            if (key) usedKeys.add(key);
+        }
+    }
+
+    /**
+     * List the text, loop and condition placeholders left in a rendered part
+     */
+    private findUnreplaced(xml: string, part: string): PlaceholderInfo[] {
+        return inspectPart(xml, part, {
+            delimiters: this.delimiters,
+            tables: this.tables.map(table => getPlaceholderName(table.placeholder, this.delimiters)),
+            images: this.images.map(image => getPlaceholderName(image.placeholder, this.delimiters))
+        }).filter(placeholder => placeholder.kind !== 'table' && placeholder.kind !== 'image');
+    }
+
+    /**
+     * Read an XML part for processing: placeholders split across runs are
+     * merged and escaped delimiters are hidden
+     */
+    private readPart(entryName: string): string {
+        this.currentPart = entryName;
+        const xml = this.zip!.getEntry(entryName)!.getData().toString('utf8');
+        return normalizeRuns(maskEscapedDelimiters(xml, this.delimiters), this.delimiters);
+    }
+
+    /**
+     * Give the drawings in the body, headers, footers and notes unique IDs
+     */
+    private numberAllDrawings(): void {
+        let nextId = 1;
+        for (const entry of this.zip!.getEntries()) {
+            if (!TEXT_PART_REGEX.test(entry.entryName)) continue;
+
+            const xml = entry.getData().toString('utf8');
+            const numbered = numberDrawings(xml, nextId);
+            nextId = numbered.nextId;
+            if (numbered.xml !== xml) {
+                this.zip!.updateFile(entry.entryName, Buffer.from(numbered.xml, 'utf8'));
+            }
+        }
+    }
+
+    /**
+     * Write a processed XML part back, turning escaped delimiters into literal ones
+     */
+    private writePart(entryName: string, xml: string): void {
+        this.zip!.updateFile(entryName, Buffer.from(unmaskEscapedDelimiters(xml, this.delimiters), 'utf8'));
+    }
+
+    /**
+     * Generate the final DOCX document as a Buffer.
+     * Problems found on the way are available from getReport(); in strict mode
+     * they are thrown as a StrictModeError instead.
      * @returns Buffer containing the generated DOCX file
      */
     async generate(): Promise<Buffer> {
@@ -309,18 +1214,44 @@ export class DocxGenerator {
             throw new Error('No template loaded. Call loadTemplate() first.');
         }
 
+        const report: GenerationReport = {
+            unreplaced: [],
+            unusedData: [],
+            missingTables: [],
+            missingImages: [],
+            failedImages: [],
+            blockedImages: []
+        };
+        const usedKeys = new Set<string>();
+        this.foundPlaceholders = new Set();
+        this.listDefinitions = {};
+        this.styleIds = new Map();
+        let buffer: Buffer;
+
         try {
             // Process images first
-            const preparedImages = await this.processImages();
+            const preparedImages = await this.processImages(report);
+            const htmlImages = await this.processHtmlImages(report, preparedImages);
+            const cellImages = await this.processCellImages(report, [...preparedImages, ...htmlImages]);
+
+            // Register them before rendering so links added on the way get other relationship IDs
+            const allImages = [...preparedImages, ...htmlImages, ...cellImages];
+            if (allImages.length > 0) {
+                this.updateRelationships(allImages);
+                this.addImageFiles(allImages);
+            }
 
             // Process document.xml
             const documentPath = 'word/document.xml';
             const documentEntry = this.zip.getEntry(documentPath);
 
             if (documentEntry) {
-                let documentXml = documentEntry.getData().toString('utf8');
+                let documentXml = this.readPart(documentPath);
+                this.collectUsedKeys(documentXml, documentPath, usedKeys);
 
-                // Replace placeholders
+                // Repeat template table rows, drop content excluded by conditions, then replace placeholders
+                documentXml = this.fillTemplateTables(documentXml);
+                documentXml = this.processConditions(documentXml, this.data);
                 documentXml = this.processPlaceholders(documentXml, this.data);
 
                 // Replace tables
@@ -329,7 +1260,8 @@ export class DocxGenerator {
                 // Replace image placeholders
                 documentXml = this.replaceImagePlaceholders(documentXml, preparedImages);
 
-                this.zip.updateFile(documentPath, Buffer.from(documentXml, 'utf8'));
+                report.unreplaced.push(...this.findUnreplaced(documentXml, documentPath));
+                this.writePart(documentPath, documentXml);
             }
 
             // Process header files
@@ -337,10 +1269,14 @@ export class DocxGenerator {
                 .filter(entry => entry.entryName.match(/word\/header\d+\.xml/));
 
             for (const headerEntry of headerFiles) {
-                let headerXml = headerEntry.getData().toString('utf8');
-                headerXml = this.processPlaceholders(headerXml, { ...this.data, ...this.headerData });
+                let headerXml = this.readPart(headerEntry.entryName);
+                this.collectUsedKeys(headerXml, headerEntry.entryName, usedKeys);
+                const headerScope = deepMerge(this.data, this.headerData);
+                headerXml = this.processConditions(headerXml, headerScope);
+                headerXml = this.processPlaceholders(headerXml, headerScope);
                 headerXml = this.replaceImagePlaceholders(headerXml, preparedImages);
-                this.zip.updateFile(headerEntry.entryName, Buffer.from(headerXml, 'utf8'));
+                report.unreplaced.push(...this.findUnreplaced(headerXml, headerEntry.entryName));
+                this.writePart(headerEntry.entryName, headerXml);
             }
 
             // Process footer files
@@ -348,30 +1284,75 @@ export class DocxGenerator {
                 .filter(entry => entry.entryName.match(/word\/footer\d+\.xml/));
 
             for (const footerEntry of footerFiles) {
-                let footerXml = footerEntry.getData().toString('utf8');
-                footerXml = this.processPlaceholders(footerXml, { ...this.data, ...this.footerData });
+                let footerXml = this.readPart(footerEntry.entryName);
+                this.collectUsedKeys(footerXml, footerEntry.entryName, usedKeys);
+                const footerScope = deepMerge(this.data, this.footerData);
+                footerXml = this.processConditions(footerXml, footerScope);
+                footerXml = this.processPlaceholders(footerXml, footerScope);
                 footerXml = this.replaceImagePlaceholders(footerXml, preparedImages);
-                this.zip.updateFile(footerEntry.entryName, Buffer.from(footerXml, 'utf8'));
+                report.unreplaced.push(...this.findUnreplaced(footerXml, footerEntry.entryName));
+                this.writePart(footerEntry.entryName, footerXml);
             }
 
-            // Add images to document
-            if (preparedImages.length > 0) {
-                this.updateRelationships(preparedImages);
-                this.addImageFiles(preparedImages);
+            // Process footnotes, endnotes and comments, which take the body data
+            const noteFiles = this.zip.getEntries()
+                .filter(entry => entry.entryName.match(/^word\/(footnotes|endnotes|comments)\.xml$/));
+
+            for (const noteEntry of noteFiles) {
+                let noteXml = this.readPart(noteEntry.entryName);
+                this.collectUsedKeys(noteXml, noteEntry.entryName, usedKeys);
+                noteXml = this.processConditions(noteXml, this.data);
+                noteXml = this.processPlaceholders(noteXml, this.data);
+                noteXml = this.replaceImagePlaceholders(noteXml, preparedImages);
+                report.unreplaced.push(...this.findUnreplaced(noteXml, noteEntry.entryName));
+                this.writePart(noteEntry.entryName, noteXml);
             }
 
+            this.numberAllDrawings();
+
+            // Placeholders that were configured but never found
+            report.missingTables = this.tables
+                .map(table => getPlaceholderName(table.placeholder, this.delimiters))
+                .filter(name => !this.foundPlaceholders.has(name));
+            report.missingImages = preparedImages
+                .map(image => getPlaceholderName(image.placeholder, this.delimiters))
+                .filter(name => !this.foundPlaceholders.has(name));
+            report.unusedData = this.getDataKeys().filter(key => !usedKeys.has(key));
+
             // Generate the final buffer
-            return this.zip.toBuffer();
+            buffer = this.zip.toBuffer();
         } catch (error) {
             throw new Error(`Failed to generate document: ${(error as Error).message}`);
         }
+
+        this.report = report;
+        if (this.options.strict && describeReport(report).length > 0) {
+            throw new StrictModeError(report);
+        }
+
+        return buffer;
+    }
+
+    /**
+     * Get the report of the last generate() or save() call
+     * @returns The report, or null if nothing was generated yet
+     * 
+     * @example
+     * ```typescript
+     * await generator.generate();
+     * const { unreplaced, unusedData } = generator.getReport()!;
+     * ```
+     */
+    getReport(): GenerationReport | null {
+        return this.report;
     }
 
     /**
      * Save the generated document to a file
      * @param outputPath - Path where the document should be saved
+     * @returns The output path and the generation report
      */
-    async save(outputPath: string): Promise<void> {
+    async save(outputPath: string): Promise<GenerationResult> {
         const buffer = await this.generate();
 
         // Ensure directory exists
@@ -381,6 +1362,8 @@ export class DocxGenerator {
         }
 
         await fs.promises.writeFile(outputPath, buffer);
+
+        return { success: true, output: outputPath, report: this.report! };
     }
 
     /**
@@ -392,6 +1375,7 @@ export class DocxGenerator {
         this.footerData = {};
         this.images = [];
         this.tables = [];
+        this.report = null;
         return this;
     }
 
@@ -0,0 +1,31 @@
+/**
+ * Error types thrown by DocxGenerator
+ */
+
+import { GenerationReport } from './types';
+
+/**
+ * Thrown in strict mode when the generation report lists any problem
+ */
+export class StrictModeError extends Error {
+    /** The full generation report */
+    readonly report: GenerationReport;
+
+    constructor(report: GenerationReport) {
+        super(`Template and data do not match:\n${describeReport(report).map(line => `  - ${line}`).join('\n')}`);
+        this.name = 'StrictModeError';
+        this.report = report;
+    }
+}
+
+/**
+ * Describe each problem in a report on its own line
+ */
+export const describeReport = (report: GenerationReport): string[] => [
+    ...report.unreplaced.map(p => `Unreplaced placeholder "${p.name}" in ${p.part}`),
+    ...report.unusedData.map(key => `Unused data key "${key}"`),
+    ...report.missingTables.map(name => `Table placeholder "${name}" not found`),
+    ...report.missingImages.map(name => `Image placeholder "${name}" not found`),
+    ...report.failedImages.map(image => `Image "${image.placeholder}" failed to load: ${image.error}`),
+    ...report.blockedImages.map(source => `Image source "${source}" is not allowed`)
+];
@@ -13,6 +13,9 @@ export { DocxGenerator } from './DocxGenerator';
 // Types
 export * from './types';
 
+// Errors
+export { StrictModeError } from './errors';
+
 // Utilities (for advanced usage)
 export * as StringUtils from './utils/string';
 export * as XmlUtils from './utils/xml';
@@ -4,8 +4,29 @@
 export interface GeneratorOptions {
     /** Custom temporary directory for processing */
     tempDir?: string;
+    /**
+     * Opening and closing placeholder delimiters. Default: ['{{', '}}'].
+     * Prefix a delimiter with a backslash (e.g. \{{) to write it literally.
+     */
+    delimiters?: Delimiters;
+    /**
+     * Throw a StrictModeError when the generation report lists any problem
+     * (unreplaced placeholders, unused data, missing tables or images, images that failed to load)
+     */
+    strict?: boolean;
+    /**
+     * Decide whether an image in an HTML or Markdown value may be loaded from its source,
+     * an http(s) URL or a file path. Markup often comes from a CMS or from users, so by
+     * default only data: URIs are loaded; other sources are left out and listed in the report.
+     */
+    allowImageSource?: (source: string) => boolean;
 }
 
+/**
+ * Opening and closing placeholder delimiters (e.g. ['[[', ']]'] or ['${', '}'])
+ */
+export type Delimiters = [string, string];
+
 /**
  * Configuration for an image to be inserted into the document
  */
@@ -18,14 +39,69 @@ export interface ImageConfig {
     buffer?: Buffer;
     /** URL to download the image from */
     url?: string;
-    /** Width of the image in EMUs (914400 EMUs = 1 inch). Default: 914400 */
-    width?: number;
-    /** Height of the image in EMUs (914400 EMUs = 1 inch). Default: auto */
-    height?: number;
+    /**
+     * Width of the image. Default: from the height and the image's aspect ratio,
+     * or the image's own size (pixels at its DPI, or 96 DPI)
+     */
+    width?: ImageSize;
+    /** Height of the image. Default: from the width and the image's aspect ratio */
+    height?: ImageSize;
+    /** Largest width: bigger images are scaled down, keeping their aspect ratio */
+    maxWidth?: ImageSize;
+    /** Largest height: bigger images are scaled down, keeping their aspect ratio */
+    maxHeight?: ImageSize;
+    /** Float the image at a position with text wrapping around it, instead of in line with the text */
+    layout?: ImageLayout;
+    /**
+     * Show the image in the template's pictures whose alt text, title or name is the
+     * placeholder, instead of replacing a text placeholder. The pictures keep their
+     * frame, cropping and wrapping, so size and layout don't apply.
+     */
+    replacePicture?: boolean;
+    /**
+     * How the image fills a replaced picture's frame: 'fill' stretches it to the frame,
+     * 'contain' keeps its aspect ratio and shrinks the frame to fit. Default: 'fill'
+     */
+    pictureFit?: 'fill' | 'contain';
     /** Unique ID for the image relationship */
     id?: string;
 }
 
+/**
+ * How text flows around a floating image: beside it ('square', or 'tight' to its
+ * outline), above and below it only ('topAndBottom'), or not at all, with the image
+ * 'behind' or 'inFront' of the text
+ */
+export type ImageWrap = 'square' | 'tight' | 'topAndBottom' | 'behind' | 'inFront';
+
+/**
+ * Position of a floating image (w:anchor), anchored to the paragraph of its placeholder
+ *
+ * @example
+ * // A stamp 2cm from the top right corner of the page, over the text
+ * { horizontalFrom: 'page', x: '15cm', verticalFrom: 'page', y: '2cm', wrap: 'inFront' }
+ */
+export interface ImageLayout {
+    /** Text wrapping. Default: 'square' */
+    wrap?: ImageWrap;
+    /** What x is measured from. Default: 'column' */
+    horizontalFrom?: 'page' | 'margin' | 'column';
+    /** Offset of the image's left edge. Default: 0 */
+    x?: ImageSize;
+    /** What y is measured from. Default: 'paragraph' */
+    verticalFrom?: 'page' | 'margin' | 'paragraph';
+    /** Offset of the image's top edge. Default: 0 */
+    y?: ImageSize;
+    /** Stacking order among floating images: higher ones are in front. Default: 0 */
+    zIndex?: number;
+}
+
+/**
+ * An image dimension in EMUs (914400 EMUs = 1 inch), or with a unit: '5cm', '40mm',
+ * '2in', '72pt' or '300px' (at 96 DPI)
+ */
+export type ImageSize = number | `${number}${'cm' | 'mm' | 'in' | 'pt' | 'px'}`;
+
 /**
  * Table styling options
  */
@@ -50,38 +126,381 @@ export interface TableStyle {
     cellPadding?: number;
     /** Border size in eighths of a point (4 = 1/2pt). Default: 4 */
     borderSize?: number;
+    /** Background color of every second data row (hex without #), for zebra striping */
+    stripeBgColor?: string;
+    /** Background color of the footer row (hex without #). Default: 'F2F2F2' */
+    footerBgColor?: string;
+    /** Repeat the header rows at the top of each page the table runs onto. Default: false */
+    repeatHeader?: boolean;
+    /** Keep each data row on one page rather than splitting it across a page break. Default: false */
+    cantSplit?: boolean;
+    /**
+     * Size the columns without a width by the length of their content, to fill the text width
+     * of the section (page width minus margins). Default: false, such columns are 2000 twips wide
+     */
+    autoWidth?: boolean;
+    /** Set the header text in bold. Default: true */
+    headerBold?: boolean;
+    /** Rules styling the data cells that match them, applied in order */
+    rules?: TableStyleRule[];
 }
 
+/**
+ * Parts of a table that get the conditional formatting of its template style (w:tblLook)
+ */
+export interface TableLook {
+    /** Header row. Default: true */
+    firstRow?: boolean;
+    /** Last row. Default: true when the table has a footer */
+    lastRow?: boolean;
+    /** First column. Default: false */
+    firstColumn?: boolean;
+    /** Last column. Default: false */
+    lastColumn?: boolean;
+    /** Banded rows. Default: true */
+    bandedRows?: boolean;
+    /** Banded columns. Default: false */
+    bandedColumns?: boolean;
+}
+
+/**
+ * Style of a table data cell
+ * (a type alias so that it can be part of a cell in record rows)
+ */
+export type CellStyle = {
+    /** Background color (hex without #) */
+    bgColor?: string;
+    /** Text color (hex without #) */
+    textColor?: string;
+    /** Bold text */
+    bold?: boolean;
+    /** Italic text */
+    italic?: boolean;
+};
+
+/**
+ * Conditional formatting for table data cells
+ *
+ * @example
+ * // Negative amounts in red, overdue rows highlighted
+ * { column: 'amount', when: value => Number(value) < 0, style: { textColor: 'C00000' } }
+ * { when: (value, row) => row.status === 'overdue', style: { bgColor: 'FDE9E7' } }
+ */
+export interface TableStyleRule {
+    /** Key of the column whose cells the rule tests. Default: every column */
+    column?: string;
+    /** Test receiving the cell value and the row as a record (array rows are keyed by header key) */
+    when: (value: CellValue | undefined, row: TableRecord) => boolean;
+    /** Style of the matching cells */
+    style: CellStyle;
+}
+
+/**
+ * A table cell spanning several columns or rows, or with its own style
+ * (a type alias so that it can be a value in record rows)
+ */
+export type TableCell = {
+    /** The cell value */
+    value: CellValue;
+    /** Number of columns the cell covers. Default: 1 */
+    colSpan?: number;
+    /** Number of rows the cell covers; the cells below it are merged into it. Default: 1 */
+    rowSpan?: number;
+    /** Style of this cell, over the column's style and matching rules */
+    style?: CellStyle;
+};
+
+/**
+ * A cell of a header row above the columns, e.g. "Q1" spanning three month columns
+ */
+export interface TableHeaderCell {
+    /** Header text */
+    name: string;
+    /** Number of columns the cell covers. Default: 1 */
+    colSpan?: number;
+    /** Number of header rows the cell covers. Default: 1 */
+    rowSpan?: number;
+}
+
+/**
+ * An image in a table cell, loaded and sized like the images of setImages(), in line with the text
+ */
+export type CellImage = {
+    image: Omit<ImageConfig, 'placeholder' | 'id' | 'layout' | 'replacePicture' | 'pictureFit'>;
+};
+
+/**
+ * Paragraphs in a table cell, each plain or rich text
+ */
+export type CellParagraphs = {
+    paragraphs: (string | RichText)[];
+};
+
+/**
+ * A table nested in a table cell
+ */
+export type CellTable = {
+    table: Omit<TableConfig, 'placeholder' | 'prototypeRow'>;
+};
+
+/**
+ * Value of a table cell: text (numbers, dates, ...), rich text runs,
+ * an image, paragraphs or a nested table
+ */
+export type CellValue = PlaceholderValue | CellImage | CellParagraphs | CellTable;
+
+/**
+ * A table row given as a record, such as a database result
+ */
+export type TableRecord = {
+    [key: string]: CellValue | TableCell;
+};
+
+/**
+ * A table row: cell values in column order, or a record whose values
+ * are looked up by TableHeader.key. In array rows, cells skip the columns
+ * covered by a row span from above; in records, those columns' values are ignored.
+ */
+export type TableRow = (CellValue | TableCell)[] | TableRecord;
+
 /**
  * Configuration for a dynamic table
  */
 export interface TableConfig {
-    /** The placeholder text in the template to replace */
+    /**
+     * The placeholder text in the template to replace. For a template table
+     * (prototypeRow), the name its prototype row uses for the record,
+     * e.g. 'item' for {{item.name}}.
+     */
     placeholder: string;
-    /** Array of header column names */
-    headers: TableHeader[];
-    /** 2D array of row data */
-    rows: string[][];
+    /** Array of header column names. Optional for template tables, where they only name array cells. */
+    headers?: TableHeader[];
+    /** Header rows with spanning cells, shown instead of the single row of header names */
+    headerRows?: TableHeaderCell[][];
+    /** Row data */
+    rows: TableRow[];
     /** Optional styling */
     style?: TableStyle;
+    /**
+     * Name or ID of a table style in the template's styles.xml (e.g. 'Grid Table 4 Accent 1').
+     * The table takes its borders, fonts and shading from that style, and only the properties
+     * set in `style` are written over it. Generation fails if the template has no such style.
+     */
+    templateStyle?: string;
+    /** Parts of the table the template style's conditional formatting applies to */
+    look?: TableLook;
+    /**
+     * Fill the template's own table instead of generating one: the row (or consecutive rows)
+     * holding {{placeholder.key}} placeholders is repeated for each record, keeping its
+     * formatting. Rows before and after it, such as headers and totals, stay as they are.
+     */
+    prototypeRow?: boolean;
+    /** Key (or dot-path) to group rows by: each group gets a header row, in order of first appearance */
+    groupBy?: string;
+    /** Text of a group's header row. Default: the group value */
+    groupLabel?: (value: CellValue | undefined, rows: TableRecord[]) => string;
+    /** Add a subtotal row with the column aggregates after each group; a string is its label. Default label: 'Subtotal' */
+    subtotals?: boolean | string;
+    /** Add a footer row with the column aggregates over all rows; a string is its label. Default label: 'Total' */
+    footer?: boolean | string;
 }
 
+/**
+ * Horizontal alignment of a table column. 'decimal' lines numbers up on their decimal point.
+ */
+export type ColumnAlign = 'left' | 'center' | 'right' | 'decimal';
+
+/**
+ * Function turning a cell value into its text
+ */
+export type CellFormatter = (value: CellValue | undefined, row: TableRow) => string;
+
+/**
+ * Built-in aggregates for summary rows. sum, avg, min and max read numbers
+ * and numeric strings; count counts the cells that have a value.
+ */
+export type AggregateName = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/**
+ * Custom aggregate receiving the values of a column's cells that have one,
+ * and the rows they come from as records
+ */
+export type AggregateFunction = (values: CellValue[], rows: TableRecord[]) => PlaceholderValue;
+
 /**
  * Table header configuration
  */
 export interface TableHeader {
     /** Header display name */
     name: string;
-    /** Data key for mapping */
+    /** Data key for mapping: the property (or dot-path, e.g. 'customer.name') read from record rows */
     key: string;
     /** Column width in twips (1440 twips = 1 inch) */
     width?: number;
+    /**
+     * Formatter chain applied to the column's cells (e.g. 'currency:"EUR"' or 'upper'),
+     * or a function receiving the value and the whole row
+     */
+    format?: string | CellFormatter;
+    /** Alignment of the column's cells. Default: left */
+    align?: ColumnAlign;
+    /** Text for cells without a value (undefined, null or ''). Default: empty */
+    emptyValue?: string;
+    /** Style of the column's data cells, e.g. { bold: true } */
+    style?: CellStyle;
+    /** Aggregate shown in subtotal and footer rows, run through the column's format */
+    aggregate?: AggregateName | AggregateFunction;
 }
 
 /**
- * Placeholder data for simple text replacement
+ * Single placeholder value. Numbers and booleans are converted to text,
+ * dates are written as YYYY-MM-DD.
+ */
+export type PlaceholderScalar = string | number | boolean | Date | null | undefined;
+
+/**
+ * A piece of text with its own formatting. Properties left out are
+ * inherited from the run holding the placeholder.
+ */
+export type TextRun = {
+    /** The text */
+    text: string;
+    /** Bold (false removes inherited bold) */
+    bold?: boolean;
+    /** Italic (false removes inherited italic) */
+    italic?: boolean;
+    /** Underline: true for a single line, or a Word underline style such as 'double' or 'wave' */
+    underline?: boolean | string;
+    /** Strikethrough */
+    strike?: boolean;
+    /** Text color as hex (e.g. 'C00000') */
+    color?: string;
+    /** Font family name */
+    font?: string;
+    /** Font size in half-points (24 = 12pt) */
+    size?: number;
+    /** Highlight color name (e.g. 'yellow', 'green', 'lightGray') */
+    highlight?: string;
+    /** Raise the text as superscript */
+    superscript?: boolean;
+    /** Lower the text as subscript */
+    subscript?: boolean;
+};
+
+/**
+ * Text made of differently formatted runs
+ */
+export type RichText = TextRun[];
+
+/**
+ * An HTML fragment converted to Word paragraphs, runs, lists, links, tables and images
+ */
+export type HtmlValue = {
+    /** The HTML */
+    html: string;
+};
+
+/**
+ * Markdown converted to Word paragraphs using the template's heading and list styles
  */
-export type PlaceholderData = Record<string, string>;
+export type MarkdownValue = {
+    /** The Markdown, including GitHub-flavored tables */
+    markdown: string;
+};
+
+/**
+ * A hyperlink: an external URL, or #name to go to a bookmark in the document
+ */
+export type LinkValue = {
+    /** The URL, or # followed by a bookmark name */
+    link: string;
+    /** Link text (defaults to the URL) */
+    text?: string;
+};
+
+/**
+ * Value of a placeholder: replacement text, rich text, a nested object resolved with
+ * dot-paths ({{customer.address.city}}), or a list for a {{#key}}...{{/key}} block
+ */
+export type PlaceholderValue = PlaceholderScalar | PlaceholderData | PlaceholderValue[];
+
+/**
+ * Placeholder data for text replacement and repeating blocks.
+ * Object values such as TextRun, HtmlValue, MarkdownValue and LinkValue are type
+ * aliases rather than interfaces, as only those satisfy this index signature.
+ */
+export interface PlaceholderData {
+    [key: string]: PlaceholderValue;
+}
+
+/**
+ * Formatter used in placeholder expressions such as {{total | currency:"EUR"}}.
+ * Receives the value and the arguments written after the formatter name.
+ */
+export type Formatter = (value: PlaceholderValue | undefined, ...args: string[]) => PlaceholderValue | undefined;
+
+/**
+ * What a placeholder is used for
+ */
+export type PlaceholderKind = 'text' | 'table' | 'image' | 'loop' | 'condition';
+
+/**
+ * A placeholder found in a template
+ */
+export interface PlaceholderInfo {
+    /** Placeholder text between the delimiters (e.g. 'total | currency:"EUR"' or '#items') */
+    name: string;
+    /** Data path the placeholder reads (e.g. "total", or "items" for {{#items}}) */
+    path: string;
+    /** What the placeholder is used for */
+    kind: PlaceholderKind;
+    /** Package part holding the placeholder (e.g. "word/header1.xml") */
+    part: string;
+    /** Zero-based index of the paragraph in the part */
+    paragraph: number;
+    /** Whether the placeholder is inside a table */
+    inTable: boolean;
+    /** Whether Word split the placeholder across several runs */
+    split: boolean;
+}
+
+/**
+ * Result of inspecting a template
+ */
+export interface TemplateInspection {
+    /** Text parts that were inspected */
+    parts: string[];
+    /** Every placeholder occurrence, in document order per part */
+    placeholders: PlaceholderInfo[];
+}
+
+/**
+ * An image that could not be loaded
+ */
+export interface ImageFailure {
+    /** Placeholder of the image */
+    placeholder: string;
+    /** Why loading failed */
+    error: string;
+}
+
+/**
+ * Problems found while generating a document
+ */
+export interface GenerationReport {
+    /** Placeholders left in the output because no value was found */
+    unreplaced: PlaceholderInfo[];
+    /** Top-level data keys no placeholder used */
+    unusedData: string[];
+    /** Table placeholders not found in the document body */
+    missingTables: string[];
+    /** Image placeholders not found in any part */
+    missingImages: string[];
+    /** Images that failed to load and were left out */
+    failedImages: ImageFailure[];
+    /** Image sources in HTML and Markdown values that allowImageSource did not allow, left out */
+    blockedImages: string[];
+}
 
 /**
  * Result of document generation
@@ -93,4 +512,6 @@ export interface GenerationResult {
     output?: string | Buffer;
     /** Error message if failed */
     error?: string;
+    /** Problems found while generating */
+    report?: GenerationReport;
 }
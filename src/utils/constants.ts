@@ -2,6 +2,9 @@
  * XML template constants for Office Open XML (OOXML) DOCX format
  */
 
+import { CellStyle, ColumnAlign, ImageWrap, TableLook } from '../types';
+import { RunContext } from './runs';
+
 /**
  * Generate XML for image relationship entry in .rels file
  */
@@ -10,20 +13,10 @@ export const generateImageRelationship = (imageId: string, imageName: string): s
 };
 
 /**
- * Generate XML for inline image in document
+ * Generate the picture of a drawing: its graphic frame properties and graphic
  */
-export const generateInlineImage = (
-  imageId: string,
-  width: number = 914400,
-  height: number = 914400,
-  name: string = 'Picture'
-): string => {
-  return `<w:drawing>
-    <wp:inline distT="0" distB="0" distL="0" distR="0">
-      <wp:extent cx="${width}" cy="${height}" />
-      <wp:effectExtent l="0" t="0" r="0" b="0" />
-      <wp:docPr id="1" name="${name}" />
-      <wp:cNvGraphicFramePr>
+const generatePictureGraphic = (imageId: string, width: number, height: number, name: string): string => {
+  return `<wp:cNvGraphicFramePr>
         <a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1" />
       </wp:cNvGraphicFramePr>
       <a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
@@ -50,11 +43,90 @@ export const generateInlineImage = (
             </pic:spPr>
           </pic:pic>
         </a:graphicData>
-      </a:graphic>
+      </a:graphic>`;
+};
+
+/**
+ * Generate XML for inline image in document
+ */
+export const generateInlineImage = (
+  imageId: string,
+  width: number = 914400,
+  height: number = 914400,
+  name: string = 'Picture'
+): string => {
+  return `<w:drawing>
+    <wp:inline distT="0" distB="0" distL="0" distR="0">
+      <wp:extent cx="${width}" cy="${height}" />
+      <wp:effectExtent l="0" t="0" r="0" b="0" />
+      <wp:docPr id="1" name="${name}" />
+      ${generatePictureGraphic(imageId, width, height, name)}
     </wp:inline>
   </w:drawing>`;
 };
 
+/**
+ * Position and text wrapping of a floating image, with offsets in EMUs
+ */
+export interface AnchorPosition {
+  wrap: ImageWrap;
+  horizontalFrom: 'page' | 'margin' | 'column';
+  x: number;
+  verticalFrom: 'page' | 'margin' | 'paragraph';
+  y: number;
+  zIndex: number;
+}
+
+/**
+ * Generate the wrapping element of a floating image. Tight wrapping needs a
+ * polygon to wrap around, here the image's rectangle (in 1/21600ths of its size).
+ */
+const generateWrap = (wrap: ImageWrap): string => {
+  switch (wrap) {
+    case 'tight':
+      return '<wp:wrapTight wrapText="bothSides"><wp:wrapPolygon edited="0">' +
+        '<wp:start x="0" y="0" /><wp:lineTo x="0" y="21600" /><wp:lineTo x="21600" y="21600" />' +
+        '<wp:lineTo x="21600" y="0" /><wp:lineTo x="0" y="0" /></wp:wrapPolygon></wp:wrapTight>';
+    case 'topAndBottom':
+      return '<wp:wrapTopAndBottom />';
+    case 'behind':
+    case 'inFront':
+      return '<wp:wrapNone />';
+    default:
+      return '<wp:wrapSquare wrapText="bothSides" />';
+  }
+};
+
+/**
+ * Generate XML for a floating image anchored to the paragraph it is placed in.
+ * Floating images stack by relativeHeight, so zIndex is added to a base that
+ * keeps it positive.
+ */
+export const generateAnchoredImage = (
+  imageId: string,
+  width: number,
+  height: number,
+  name: string,
+  position: AnchorPosition
+): string => {
+  return `<w:drawing>
+    <wp:anchor distT="0" distB="0" distL="114300" distR="114300" simplePos="0" relativeHeight="${251658240 + position.zIndex}" behindDoc="${position.wrap === 'behind' ? 1 : 0}" locked="0" layoutInCell="1" allowOverlap="1">
+      <wp:simplePos x="0" y="0" />
+      <wp:positionH relativeFrom="${position.horizontalFrom}">
+        <wp:posOffset>${position.x}</wp:posOffset>
+      </wp:positionH>
+      <wp:positionV relativeFrom="${position.verticalFrom}">
+        <wp:posOffset>${position.y}</wp:posOffset>
+      </wp:positionV>
+      <wp:extent cx="${width}" cy="${height}" />
+      <wp:effectExtent l="0" t="0" r="0" b="0" />
+      ${generateWrap(position.wrap)}
+      <wp:docPr id="1" name="${name}" />
+      ${generatePictureGraphic(imageId, width, height, name)}
+    </wp:anchor>
+  </w:drawing>`;
+};
+
 /**
  * Default table style values
  */
@@ -68,143 +140,334 @@ export const DEFAULT_TABLE_STYLE = {
   rowHeight: 350,
   tableAlign: 'center',
   cellPadding: 100,
-  borderSize: 4
+  borderSize: 4,
+  stripeBgColor: '', // No striping
+  footerBgColor: 'F2F2F2',
+  repeatHeader: false,
+  cantSplit: false,
+  autoWidth: false,
+  headerBold: true,
+  headerAlign: 'center',
+  verticalAlign: 'center',
+  fixedLayout: true,
+  styleId: 'TableGrid'
+};
+
+/**
+ * Style of a generated table. Properties left undefined are not written,
+ * so that the table style (styleId) decides them.
+ */
+export type GeneratedTableStyle = Partial<typeof DEFAULT_TABLE_STYLE> & {
+  /** Parts of the table the table style's conditional formatting applies to */
+  look?: TableLook;
+};
+
+/**
+ * Word's default left and right cell margin in twips, for tables without cellPadding
+ */
+const DEFAULT_CELL_MARGIN = 108;
+
+/**
+ * A generated table cell spanning columns or merged with the cells above or below
+ */
+export interface SpannedCell {
+  /** Cell text */
+  text: string;
+  /** Number of grid columns the cell covers */
+  colSpan?: number;
+  /** Start ('restart') or continuation ('continue') of a vertically merged cell */
+  vMerge?: 'restart' | 'continue';
+  /** Style of this cell, over the row's and column's style */
+  style?: CellStyle;
+  /**
+   * Render the cell's paragraphs, images or tables in place of its text, from the
+   * properties of the cell paragraph and the width inside the cell padding (twips)
+   */
+  content?: (context: RunContext, width: number) => string;
+}
+
+/**
+ * Kind of a computed row in a generated table: a group header, a group's subtotals or the footer
+ */
+export type SummaryRowKind = 'group' | 'subtotal' | 'footer';
+
+/**
+ * Alignment and style of a generated table's data column
+ */
+export interface DataColumn {
+  align?: ColumnAlign;
+  style?: CellStyle;
+}
+
+/**
+ * Wrap properties in their element (e.g. w:rPr), or leave it out when there are none
+ */
+const generatePropertiesElement = (name: string, properties: string): string => {
+  return properties.trim() ? `<${name}>${properties}</${name}>` : '';
+};
+
+/**
+ * Generate the span properties of a cell (w:gridSpan, w:vMerge)
+ */
+const generateSpanProperties = (colSpan: number, vMerge?: 'restart' | 'continue'): string => {
+  const gridSpan = colSpan > 1 ? `<w:gridSpan w:val="${colSpan}" />` : '';
+  if (vMerge === 'restart') return `${gridSpan}<w:vMerge w:val="restart" />`;
+  if (vMerge === 'continue') return `${gridSpan}<w:vMerge />`;
+  return gridSpan;
+};
+
+/**
+ * Generate the margins of a cell (w:tcMar)
+ */
+const generateCellMargins = (padding?: number): string => {
+  if (padding === undefined) return '';
+  return `
+        <w:tcMar>
+            <w:top w:w="${padding}" w:type="dxa"/>
+            <w:left w:w="${padding}" w:type="dxa"/>
+            <w:bottom w:w="${padding}" w:type="dxa"/>
+            <w:right w:w="${padding}" w:type="dxa"/>
+        </w:tcMar>`;
+};
+
+/**
+ * Sum the widths of the grid columns a cell covers
+ */
+const spanWidth = (widths: number[], column: number, colSpan: number): number => {
+  return widths.slice(column, column + colSpan).reduce((sum, width) => sum + (width || 2000), 0) || 2000;
 };
 
 /**
- * Generate table header row XML
+ * Generate table header row XML. With column widths given, headers are
+ * cells laid over those columns and may span several of them.
  */
 export const generateTableHeaderRow = (
-  headers: { name: string; width?: number }[],
-  style: typeof DEFAULT_TABLE_STYLE = DEFAULT_TABLE_STYLE
+  headers: { name: string; width?: number; colSpan?: number; vMerge?: 'restart' | 'continue' }[],
+  style: GeneratedTableStyle = DEFAULT_TABLE_STYLE,
+  widths?: number[]
 ): string => {
-  const cells = headers.map((header, index) => `
+  const runProperties = generatePropertiesElement('w:rPr', `
+            ${style.fontFamily ? `<w:rFonts w:ascii="${style.fontFamily}" w:hAnsi="${style.fontFamily}" />` : ''}
+            ${style.headerBold ? '<w:b />' : ''}
+            ${style.fontSize ? `<w:sz w:val="${style.fontSize}" />` : ''}
+            ${style.fontSize ? `<w:szCs w:val="${style.fontSize}" />` : ''}
+            ${style.headerTextColor ? `<w:color w:val="${style.headerTextColor}" />` : ''}
+          `);
+  const paragraphProperties = generatePropertiesElement('w:pPr', `
+          ${style.headerAlign ? `<w:jc w:val="${style.headerAlign}" />` : ''}
+          ${runProperties}
+        `);
+
+  let column = 0;
+  const cells = headers.map(header => {
+    const colSpan = header.colSpan || 1;
+    const width = widths ? spanWidth(widths, column, colSpan) : header.width || 2000;
+    column += colSpan;
+    return `
     <w:tc>
       <w:tcPr>
-        <w:tcW w:w="${header.width || 2000}" w:type="dxa" />
-        <w:shd w:val="clear" w:color="auto" w:fill="${style.headerBgColor}" />
-        <w:tcMar>
-            <w:top w:w="${style.cellPadding}" w:type="dxa"/>
-            <w:left w:w="${style.cellPadding}" w:type="dxa"/>
-            <w:bottom w:w="${style.cellPadding}" w:type="dxa"/>
-            <w:right w:w="${style.cellPadding}" w:type="dxa"/>
-        </w:tcMar>
-        <w:vAlign w:val="center" />
+        <w:tcW w:w="${width}" w:type="dxa" />
+        ${generateSpanProperties(colSpan, header.vMerge)}
+        ${style.headerBgColor ? `<w:shd w:val="clear" w:color="auto" w:fill="${style.headerBgColor}" />` : ''}
+        ${generateCellMargins(style.cellPadding)}
+        ${style.verticalAlign ? `<w:vAlign w:val="${style.verticalAlign}" />` : ''}
       </w:tcPr>
       <w:p>
-        <w:pPr>
-          <w:jc w:val="center" />
-          <w:rPr>
-            <w:rFonts w:ascii="${style.fontFamily}" w:hAnsi="${style.fontFamily}" />
-            <w:b />
-            <w:sz w:val="${style.fontSize}" />
-            <w:szCs w:val="${style.fontSize}" />
-            <w:color w:val="${style.headerTextColor}" />
-          </w:rPr>
-        </w:pPr>
+        ${paragraphProperties}
         <w:r>
-          <w:rPr>
-            <w:rFonts w:ascii="${style.fontFamily}" w:hAnsi="${style.fontFamily}" />
-            <w:b />
-            <w:sz w:val="${style.fontSize}" />
-            <w:szCs w:val="${style.fontSize}" />
-            <w:color w:val="${style.headerTextColor}" />
-          </w:rPr>
+          ${runProperties}
           <w:t>${escapeXml(header.name)}</w:t>
         </w:r>
       </w:p>
     </w:tc>
-  `).join('');
+  `;
+  }).join('');
 
   return `
     <w:tr>
-      <w:trPr>
-        <w:trHeight w:val="${style.headerHeight}" />
-      </w:trPr>
+      ${generatePropertiesElement('w:trPr', `
+        ${style.headerHeight ? `<w:trHeight w:val="${style.headerHeight}" />` : ''}
+        ${style.repeatHeader ? '<w:tblHeader />' : ''}
+      `)}
       ${cells}
     </w:tr>
   `;
 };
 
 /**
- * Generate a single table data row XML
+ * Generate the paragraph alignment of a data cell. Decimal alignment uses a
+ * decimal tab stop near the right edge of the cell, reached by a leading tab.
+ */
+const generateCellAlignment = (align: ColumnAlign | undefined, width: number, style: GeneratedTableStyle): string => {
+  if (align === 'decimal') {
+    const position = Math.max(0, width - (style.cellPadding ?? DEFAULT_CELL_MARGIN) * 2 - 400);
+    return `<w:tabs><w:tab w:val="decimal" w:pos="${position}" /></w:tabs>`;
+  }
+  return align ? `<w:jc w:val="${align}" />` : '';
+};
+
+/**
+ * Generate the run properties of a data cell
+ */
+const generateCellRunProperties = (style: GeneratedTableStyle, cellStyle: CellStyle): string => generatePropertiesElement('w:rPr', `
+            ${style.fontFamily ? `<w:rFonts w:ascii="${style.fontFamily}" w:hAnsi="${style.fontFamily}" />` : ''}
+            ${cellStyle.bold ? '<w:b />' : ''}
+            ${cellStyle.italic ? '<w:i />' : ''}
+            ${cellStyle.textColor ? `<w:color w:val="${cellStyle.textColor}" />` : ''}
+            ${style.fontSize ? `<w:sz w:val="${style.fontSize}" />` : ''}
+            ${style.fontSize ? `<w:szCs w:val="${style.fontSize}" />` : ''}
+          `);
+
+/**
+ * Make cell content end with a paragraph, as every table cell must
+ */
+const endWithParagraph = (xml: string, paragraphProperties: string): string => {
+  return /<\/w:p>\s*$/.test(xml) ? xml : `${xml}<w:p>${paragraphProperties}</w:p>`;
+};
+
+/**
+ * Generate a single table data row XML. Cells may span columns, so widths,
+ * alignments and column styles are looked up by the grid column each cell
+ * starts at. A cell's own style wins over its column's, which wins over the row's.
  */
 export const generateTableDataRow = (
-  cells: string[],
+  cells: (string | SpannedCell)[],
   widths: number[],
-  style: typeof DEFAULT_TABLE_STYLE = DEFAULT_TABLE_STYLE
+  style: GeneratedTableStyle = DEFAULT_TABLE_STYLE,
+  columns: DataColumn[] = [],
+  rowStyle: CellStyle = {}
 ): string => {
-  const cellsXml = cells.map((cell, index) => `
-    <w:tc>
-      <w:tcPr>
-        <w:tcW w:w="${widths[index] || 2000}" w:type="dxa" />
-        <w:tcMar>
-            <w:top w:w="${style.cellPadding}" w:type="dxa"/>
-            <w:left w:w="${style.cellPadding}" w:type="dxa"/>
-            <w:bottom w:w="${style.cellPadding}" w:type="dxa"/>
-            <w:right w:w="${style.cellPadding}" w:type="dxa"/>
-        </w:tcMar>
-        <w:vAlign w:val="center" />
-      </w:tcPr>
+  let column = 0;
+  const cellsXml = cells.map(cell => {
+    const { text, colSpan = 1, vMerge, style: ownStyle, content } = typeof cell === 'string' ? { text: cell } as SpannedCell : cell;
+    const index = column;
+    const width = spanWidth(widths, index, colSpan);
+    const align = columns[index]?.align;
+    const cellStyle = { ...rowStyle, ...columns[index]?.style, ...ownStyle };
+    column += colSpan;
+
+    const runProperties = generateCellRunProperties(style, cellStyle);
+    const paragraphProperties = generatePropertiesElement('w:pPr', `
+          ${generateCellAlignment(align, width, style)}
+          ${runProperties}
+        `);
+    const body = content
+      ? endWithParagraph(content({
+        runProperties: runProperties.trim(),
+        paragraphProperties: paragraphProperties.trim()
+      }, width - 2 * (style.cellPadding ?? DEFAULT_CELL_MARGIN)), paragraphProperties)
+      : `
       <w:p>
-        <w:pPr>
-          <w:rPr>
-            <w:rFonts w:ascii="${style.fontFamily}" w:hAnsi="${style.fontFamily}" />
-            <w:sz w:val="${style.fontSize}" />
-            <w:szCs w:val="${style.fontSize}" />
-          </w:rPr>
-        </w:pPr>
+        ${paragraphProperties}
         <w:r>
-          <w:rPr>
-            <w:rFonts w:ascii="${style.fontFamily}" w:hAnsi="${style.fontFamily}" />
-            <w:sz w:val="${style.fontSize}" />
-            <w:szCs w:val="${style.fontSize}" />
-          </w:rPr>
-          <w:t>${escapeXml(cell)}</w:t>
+          ${runProperties}
+          ${align === 'decimal' ? '<w:tab />' : ''}<w:t>${escapeXml(text)}</w:t>
         </w:r>
-      </w:p>
+      </w:p>`;
+
+    return `
+    <w:tc>
+      <w:tcPr>
+        <w:tcW w:w="${width}" w:type="dxa" />
+        ${generateSpanProperties(colSpan, vMerge)}
+        ${cellStyle.bgColor ? `<w:shd w:val="clear" w:color="auto" w:fill="${cellStyle.bgColor}" />` : ''}
+        ${generateCellMargins(style.cellPadding)}
+        ${style.verticalAlign ? `<w:vAlign w:val="${style.verticalAlign}" />` : ''}
+      </w:tcPr>
+      ${body}
     </w:tc>
-  `).join('');
+  `;
+  }).join('');
 
   return `
     <w:tr>
-      <w:trPr>
-        <w:trHeight w:val="${style.rowHeight}" />
-      </w:trPr>
+      ${generatePropertiesElement('w:trPr', `
+        ${style.cantSplit ? '<w:cantSplit />' : ''}
+        ${style.rowHeight ? `<w:trHeight w:val="${style.rowHeight}" />` : ''}
+      `)}
       ${cellsXml}
     </w:tr>
   `;
 };
 
 /**
- * Generate complete table XML
+ * Generate a table's borders, if its style sets their size or color
+ */
+const generateTableBorders = (style: GeneratedTableStyle): string => {
+  if (style.borderSize === undefined && style.borderColor === undefined) return '';
+  const border = (side: string) =>
+    `<w:${side} w:val="single" w:sz="${style.borderSize ?? 4}" w:space="0" w:color="${style.borderColor ?? 'auto'}" />`;
+  return `
+        <w:tblBorders>
+          ${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('\n          ')}
+        </w:tblBorders>`;
+};
+
+/**
+ * Generate the parts of a table its style's conditional formatting applies to.
+ * w:val repeats the flags as a bit mask for versions of Word before 2010.
+ */
+const generateTableLook = (look: TableLook): string => {
+  const flags: [string, boolean, number][] = [
+    ['firstRow', !!look.firstRow, 0x0020],
+    ['lastRow', !!look.lastRow, 0x0040],
+    ['firstColumn', !!look.firstColumn, 0x0080],
+    ['lastColumn', !!look.lastColumn, 0x0100],
+    ['noHBand', !look.bandedRows, 0x0200],
+    ['noVBand', !look.bandedColumns, 0x0400]
+  ];
+  const mask = flags.reduce((sum, [, on, bit]) => on ? sum | bit : sum, 0);
+  const attributes = flags.map(([name, on]) => `w:${name}="${on ? 1 : 0}"`).join(' ');
+  return `<w:tblLook w:val="${mask.toString(16).toUpperCase().padStart(4, '0')}" ${attributes} />`;
+};
+
+/**
+ * Generate complete table XML. Header rows, if given, replace the single
+ * row of header names. Rows with a summary kind are set in bold, the footer
+ * on its own background, and are left out of the striping. With autoWidth,
+ * the table is as wide as its columns rather than the full text width.
+ * Style properties left undefined are left to the table style.
  */
 export const generateTable = (
-  headers: { name: string; width?: number }[],
-  rows: string[][],
-  style: typeof DEFAULT_TABLE_STYLE = DEFAULT_TABLE_STYLE
+  headers: { name: string; width?: number; align?: ColumnAlign; style?: CellStyle }[],
+  rows: (string | SpannedCell)[][],
+  style: GeneratedTableStyle = DEFAULT_TABLE_STYLE,
+  headerRows?: { name: string; colSpan?: number; vMerge?: 'restart' | 'continue' }[][],
+  rowKinds: (SummaryRowKind | undefined)[] = []
 ): string => {
   const widths = headers.map(h => h.width || 2000);
+  const columns = headers.map(h => ({ align: h.align, style: h.style }));
   const gridCols = headers.map(h => `<w:gridCol w:w="${h.width || 2000}" />`).join('');
 
-  const headerRow = generateTableHeaderRow(headers, style);
-  const dataRows = rows.map(row => generateTableDataRow(row, widths, style)).join('');
+  const headerRow = headerRows
+    ? headerRows.map(row => generateTableHeaderRow(row, style, widths)).join('')
+    : generateTableHeaderRow(headers, style);
+  const summaryStyles: Record<SummaryRowKind, CellStyle> = {
+    group: { bold: true },
+    subtotal: { bold: true },
+    footer: { bold: true, bgColor: style.footerBgColor }
+  };
+
+  let stripe = 0;
+  const dataRows = rows.map((row, index) => {
+    const kind = rowKinds[index];
+    const rowStyle = kind
+      ? summaryStyles[kind]
+      : style.stripeBgColor && stripe++ % 2 === 1 ? { bgColor: style.stripeBgColor } : {};
+    return generateTableDataRow(row, widths, style, columns, rowStyle);
+  }).join('');
 
   return `
     <w:tbl>
       <w:tblPr>
-        <w:tblStyle w:val="TableGrid" />
-        <w:tblW w:w="5000" w:type="pct" />
-        <w:jc w:val="${style.tableAlign}" />
-        <w:tblBorders>
-          <w:top w:val="single" w:sz="${style.borderSize}" w:space="0" w:color="${style.borderColor}" />
-          <w:left w:val="single" w:sz="${style.borderSize}" w:space="0" w:color="${style.borderColor}" />
-          <w:bottom w:val="single" w:sz="${style.borderSize}" w:space="0" w:color="${style.borderColor}" />
-          <w:right w:val="single" w:sz="${style.borderSize}" w:space="0" w:color="${style.borderColor}" />
-          <w:insideH w:val="single" w:sz="${style.borderSize}" w:space="0" w:color="${style.borderColor}" />
-          <w:insideV w:val="single" w:sz="${style.borderSize}" w:space="0" w:color="${style.borderColor}" />
-        </w:tblBorders>
-        <w:tblLayout w:type="fixed" />
+        ${style.styleId ? `<w:tblStyle w:val="${style.styleId}" />` : ''}
+        ${style.autoWidth
+          ? `<w:tblW w:w="${widths.reduce((sum, width) => sum + width, 0)}" w:type="dxa" />`
+          : '<w:tblW w:w="5000" w:type="pct" />'}
+        ${style.tableAlign ? `<w:jc w:val="${style.tableAlign}" />` : ''}
+        ${generateTableBorders(style)}
+        ${style.fixedLayout || style.autoWidth ? '<w:tblLayout w:type="fixed" />' : ''}
+        ${style.look ? generateTableLook(style.look) : ''}
       </w:tblPr>
       <w:tblGrid>
         ${gridCols}
@@ -0,0 +1,152 @@
+/**
+ * Data access utilities for placeholder values
+ */
+
+import { PlaceholderData, PlaceholderValue, RichText, HtmlValue, MarkdownValue, LinkValue } from '../types';
+import { stripHtml } from './string';
+
+/**
+ * Check whether a value is a plain data object (not an array, Date or Buffer)
+ */
+export const isPlainObject = (value: unknown): value is PlaceholderData => {
+    return typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        !Buffer.isBuffer(value);
+};
+
+/**
+ * Check whether a value is rich text (a non-empty list of { text, ... } runs)
+ */
+export const isRichText = (value: PlaceholderValue | undefined): value is RichText => {
+    return Array.isArray(value) &&
+        value.length > 0 &&
+        value.every(item => isPlainObject(item) && typeof item.text === 'string');
+};
+
+/**
+ * Check whether a value is an HTML fragment ({ html: '<p>...</p>' })
+ */
+export const isHtmlValue = (value: PlaceholderValue | undefined): value is HtmlValue => {
+    return isPlainObject(value) && typeof value.html === 'string' && Object.keys(value).length === 1;
+};
+
+/**
+ * Check whether a value is Markdown ({ markdown: '# Title' })
+ */
+export const isMarkdownValue = (value: PlaceholderValue | undefined): value is MarkdownValue => {
+    return isPlainObject(value) && typeof value.markdown === 'string' && Object.keys(value).length === 1;
+};
+
+/**
+ * Check whether a value is a hyperlink ({ link: 'https://...', text: 'Details' })
+ */
+export const isLinkValue = (value: PlaceholderValue | undefined): value is LinkValue => {
+    return isPlainObject(value) &&
+        typeof value.link === 'string' &&
+        (value.text === undefined || typeof value.text === 'string') &&
+        Object.keys(value).every(key => key === 'link' || key === 'text');
+};
+
+/**
+ * Split a placeholder path into its segments
+ *
+ * @example
+ * parsePath('order.lines[0].sku'); // ['order', 'lines', '0', 'sku']
+ */
+export const parsePath = (path: string): string[] => {
+    return path
+        .replace(/\[\s*(\d+)\s*\]/g, '.$1')
+        .split('.')
+        .map(segment => segment.trim())
+        .filter(segment => segment !== '');
+};
+
+/**
+ * Resolve a dot-path (e.g. "customer.address.city" or "lines[0].sku") against data.
+ * Keys that contain dots themselves are matched before the path is split.
+ */
+export const resolvePath = (data: PlaceholderData, path: string): PlaceholderValue | undefined => {
+    const key = path.trim();
+    if (Object.prototype.hasOwnProperty.call(data, key)) {
+        return data[key];
+    }
+
+    let current: PlaceholderValue | undefined = data;
+    for (const segment of parsePath(key)) {
+        if (Array.isArray(current)) {
+            current = current[Number(segment)];
+        } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+            current = current[segment];
+        } else {
+            return undefined;
+        }
+    }
+
+    return current;
+};
+
+/**
+ * Pad a number with leading zeros
+ */
+const pad = (value: number, length: number = 2): string => {
+    return String(value).padStart(length, '0');
+};
+
+/**
+ * Convert a placeholder value to the text inserted into the document.
+ * Dates become YYYY-MM-DD, rich text and HTML become their plain text, other arrays are joined with ", ".
+ */
+export const valueToString = (value: PlaceholderValue | undefined): string => {
+    if (value === undefined || value === null) {
+        return '';
+    }
+
+    if (value instanceof Date) {
+        return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+
+    if (isRichText(value)) {
+        return value.map(run => run.text).join('');
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(valueToString).join(', ');
+    }
+
+    if (isHtmlValue(value)) {
+        return stripHtml(value.html);
+    }
+
+    if (isMarkdownValue(value)) {
+        return value.markdown;
+    }
+
+    if (isLinkValue(value)) {
+        return value.text ?? value.link;
+    }
+
+    if (isPlainObject(value)) {
+        return '';
+    }
+
+    return String(value);
+};
+
+/**
+ * Merge nested data objects. Objects are merged key by key, any other value
+ * (including arrays) from the source replaces the target value.
+ */
+export const deepMerge = (target: PlaceholderData, source: PlaceholderData): PlaceholderData => {
+    const result: PlaceholderData = { ...target };
+
+    for (const [key, value] of Object.entries(source)) {
+        const existing = result[key];
+        result[key] = isPlainObject(existing) && isPlainObject(value)
+            ? deepMerge(existing, value)
+            : value;
+    }
+
+    return result;
+};
@@ -0,0 +1,177 @@
+/**
+ * Image dimensions read from the headers of PNG, JPEG, GIF, BMP and WebP files
+ */
+
+/**
+ * Pixel size and resolution of an image, as it is displayed
+ */
+export interface ImageDimensions {
+    /** Width in pixels */
+    width: number;
+    /** Height in pixels */
+    height: number;
+    /** Horizontal resolution in dots per inch, if the file gives one */
+    dpiX?: number;
+    /** Vertical resolution in dots per inch, if the file gives one */
+    dpiY?: number;
+}
+
+const INCHES_PER_METER = 0.0254;
+
+/**
+ * Read a PNG's IHDR chunk and its pHYs chunk, whose unit 1 is pixels per meter
+ */
+const readPng = (buffer: Buffer): ImageDimensions | null => {
+    if (buffer.length < 24 || buffer.toString('ascii', 12, 16) !== 'IHDR') return null;
+    const dimensions: ImageDimensions = { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        if (type === 'IDAT' || type === 'IEND') break;
+        if (type === 'pHYs' && offset + 17 <= buffer.length && buffer[offset + 16] === 1) {
+            dimensions.dpiX = buffer.readUInt32BE(offset + 8) * INCHES_PER_METER;
+            dimensions.dpiY = buffer.readUInt32BE(offset + 12) * INCHES_PER_METER;
+        }
+        offset += length + 12;
+    }
+
+    return dimensions;
+};
+
+/**
+ * Read the orientation tag (0x0112) from the first IFD of an EXIF block
+ */
+const readExifOrientation = (buffer: Buffer, tiff: number, end: number): number | undefined => {
+    const bigEndian = buffer.toString('ascii', tiff, tiff + 2) === 'MM';
+    const read16 = (offset: number) => bigEndian ? buffer.readUInt16BE(offset) : buffer.readUInt16LE(offset);
+    const read32 = (offset: number) => bigEndian ? buffer.readUInt32BE(offset) : buffer.readUInt32LE(offset);
+
+    if (tiff + 8 > end) return undefined;
+    const ifd = tiff + read32(tiff + 4);
+    if (ifd + 2 > end) return undefined;
+
+    const count = read16(ifd);
+    for (let entry = ifd + 2; entry < ifd + 2 + count * 12 && entry + 12 <= end; entry += 12) {
+        if (read16(entry) === 0x0112) return read16(entry + 8);
+    }
+    return undefined;
+};
+
+/**
+ * Walk a JPEG's markers for its frame size (SOFn), JFIF density and EXIF orientation.
+ * Orientations 5 to 8 turn the image by a quarter, so width and height swap.
+ */
+const readJpeg = (buffer: Buffer): ImageDimensions | null => {
+    let dimensions: ImageDimensions | null = null;
+    let orientation: number | undefined;
+    let dpiX: number | undefined;
+    let dpiY: number | undefined;
+
+    let offset = 2;
+    while (offset + 4 <= buffer.length && !dimensions) {
+        if (buffer[offset] !== 0xff) return null;
+        const marker = buffer[offset + 1];
+        // Fill bytes, and markers without a length
+        if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+            offset += marker === 0xff ? 1 : 2;
+            continue;
+        }
+
+        const length = buffer.readUInt16BE(offset + 2);
+        const end = Math.min(offset + 2 + length, buffer.length);
+        const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+        if (isFrame && offset + 9 <= buffer.length) {
+            dimensions = { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        } else if (marker === 0xe0 && buffer.toString('ascii', offset + 4, offset + 9) === 'JFIF\0' && offset + 16 <= end) {
+            const units = buffer[offset + 11];
+            const factor = units === 1 ? 1 : units === 2 ? 2.54 : 0;
+            if (factor) {
+                dpiX = buffer.readUInt16BE(offset + 12) * factor;
+                dpiY = buffer.readUInt16BE(offset + 14) * factor;
+            }
+        } else if (marker === 0xe1 && buffer.toString('ascii', offset + 4, offset + 10) === 'Exif\0\0') {
+            orientation = readExifOrientation(buffer, offset + 10, end);
+        }
+
+        offset = end;
+    }
+
+    if (!dimensions) return null;
+    if (dpiX && dpiY) Object.assign(dimensions, { dpiX, dpiY });
+    if (orientation !== undefined && orientation >= 5 && orientation <= 8) {
+        return { width: dimensions.height, height: dimensions.width, dpiX: dimensions.dpiY, dpiY: dimensions.dpiX };
+    }
+    return dimensions;
+};
+
+/**
+ * Read a GIF's logical screen size
+ */
+const readGif = (buffer: Buffer): ImageDimensions | null => {
+    if (buffer.length < 10) return null;
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+};
+
+/**
+ * Read a BMP's info header. Bottom-up bitmaps have a negative height;
+ * the old OS/2 core header holds 16-bit sizes and no resolution.
+ */
+const readBmp = (buffer: Buffer): ImageDimensions | null => {
+    if (buffer.length < 26) return null;
+    if (buffer.readUInt32LE(14) === 12) {
+        return { width: buffer.readUInt16LE(18), height: buffer.readUInt16LE(20) };
+    }
+
+    const dimensions: ImageDimensions = { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+    if (buffer.length >= 46 && buffer.readInt32LE(38) > 0 && buffer.readInt32LE(42) > 0) {
+        dimensions.dpiX = buffer.readInt32LE(38) * INCHES_PER_METER;
+        dimensions.dpiY = buffer.readInt32LE(42) * INCHES_PER_METER;
+    }
+    return dimensions;
+};
+
+/**
+ * Read a WebP's size from its extended (VP8X), lossy (VP8) or lossless (VP8L) chunk
+ */
+const readWebp = (buffer: Buffer): ImageDimensions | null => {
+    if (buffer.length < 30) return null;
+
+    switch (buffer.toString('ascii', 12, 16)) {
+        case 'VP8X':
+            return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+        case 'VP8 ':
+            return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+        case 'VP8L': {
+            const bits = buffer.readUInt32LE(21);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Read the displayed size of an image in pixels, and its resolution where the
+ * file gives one, from the header for its format (see detectImageExtension)
+ * @returns null for other formats and headers that can't be read
+ */
+export const readImageDimensions = (buffer: Buffer, extension: string | null): ImageDimensions | null => {
+    const readers: Record<string, (buffer: Buffer) => ImageDimensions | null> = {
+        png: readPng,
+        jpg: readJpeg,
+        gif: readGif,
+        bmp: readBmp,
+        webp: readWebp
+    };
+
+    try {
+        const dimensions = extension && readers[extension] ? readers[extension](buffer) : null;
+        return dimensions && dimensions.width > 0 && dimensions.height > 0 ? dimensions : null;
+    } catch {
+        // Truncated headers read past the end of the buffer
+        return null;
+    }
+};
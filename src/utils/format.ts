@@ -0,0 +1,237 @@
+/**
+ * Formatter pipeline for placeholder values ({{total | currency:"EUR"}})
+ */
+
+import { Formatter, PlaceholderValue } from '../types';
+import { unescapeXml } from './string';
+import { valueToString } from './data';
+
+/**
+ * A formatter call parsed from a placeholder expression
+ */
+export interface FormatterCall {
+    /** Formatter name */
+    name: string;
+    /** Arguments given after the name, separated by ":" */
+    args: string[];
+}
+
+/**
+ * A parsed placeholder expression
+ */
+export interface PlaceholderExpression {
+    /** Data path of the value (e.g. "order.total") */
+    path: string;
+    /** Formatters applied to the value, in order */
+    formatters: FormatterCall[];
+}
+
+const QUOTE_PAIRS: Record<string, string> = {
+    '"': '"',
+    "'": "'",
+    '“': '”',
+    '‘': '’'
+};
+
+/**
+ * Split text on a separator, ignoring separators inside quotes.
+ * Word's smart quotes are treated like plain quotes.
+ */
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let closingQuote: string | null = null;
+
+    for (const char of text) {
+        if (closingQuote) {
+            if (char === closingQuote) closingQuote = null;
+            current += char;
+        } else if (QUOTE_PAIRS[char]) {
+            closingQuote = QUOTE_PAIRS[char];
+            current += char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    parts.push(current);
+    return parts;
+};
+
+/**
+ * Remove surrounding quotes from a formatter argument
+ */
+const unquote = (text: string): string => {
+    const value = text.trim();
+    const closing = QUOTE_PAIRS[value.charAt(0)];
+    if (closing && value.length >= 2 && value.endsWith(closing)) {
+        return value.slice(1, -1);
+    }
+    return value;
+};
+
+/**
+ * Parse a formatter chain such as `currency:"EUR" | upper`
+ */
+export const parseFormatters = (text: string): FormatterCall[] => {
+    return splitOutsideQuotes(unescapeXml(text), '|')
+        .filter(part => part.trim() !== '')
+        .map(part => {
+            const [name, ...args] = splitOutsideQuotes(part, ':');
+            return { name: name.trim(), args: args.map(unquote) };
+        });
+};
+
+/**
+ * Parse a placeholder expression such as `total | currency:"EUR"`
+ */
+export const parseExpression = (text: string): PlaceholderExpression => {
+    const [path, ...formatters] = splitOutsideQuotes(unescapeXml(text), '|');
+    return {
+        path: path.trim(),
+        formatters: parseFormatters(formatters.join('|'))
+    };
+};
+
+/**
+ * Convert a value to a number if it holds one
+ */
+const toNumber = (value: PlaceholderValue | undefined): number | null => {
+    if (typeof value === 'number') {
+        return isNaN(value) ? null : value;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    return null;
+};
+
+/**
+ * Convert a value to a date if it holds one. Date-only strings (yyyy-MM-dd)
+ * are local dates: Date parses them as UTC midnight, which is the day before
+ * in time zones west of UTC.
+ */
+const toDate = (value: PlaceholderValue | undefined): Date | null => {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : value;
+    }
+    const dateOnly = typeof value === 'string' && value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (dateOnly) {
+        const [, year, month, day] = dateOnly.map(Number);
+        const date = new Date(year, month - 1, day);
+        return date.getMonth() === month - 1 ? date : null;
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    return null;
+};
+
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Format a date with a pattern such as "dd MMM yyyy".
+ * Supported tokens: yyyy, yy, MMMM, MMM, MM, M, dd, d, EEEE, EEE, HH, H, hh, h, mm, ss, a
+ */
+export const formatDate = (date: Date, pattern: string): string => {
+    const pad = (n: number): string => String(n).padStart(2, '0');
+    const hours12 = date.getHours() % 12 || 12;
+
+    const tokens: Record<string, string> = {
+        yyyy: String(date.getFullYear()),
+        yy: String(date.getFullYear()).slice(-2),
+        MMMM: MONTH_NAMES[date.getMonth()],
+        MMM: MONTH_NAMES[date.getMonth()].slice(0, 3),
+        MM: pad(date.getMonth() + 1),
+        M: String(date.getMonth() + 1),
+        dd: pad(date.getDate()),
+        d: String(date.getDate()),
+        EEEE: DAY_NAMES[date.getDay()],
+        EEE: DAY_NAMES[date.getDay()].slice(0, 3),
+        HH: pad(date.getHours()),
+        H: String(date.getHours()),
+        hh: pad(hours12),
+        h: String(hours12),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds()),
+        a: date.getHours() < 12 ? 'AM' : 'PM'
+    };
+
+    return pattern.replace(/yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g, token => tokens[token]);
+};
+
+/**
+ * Built-in formatters
+ */
+export const BUILT_IN_FORMATTERS: Record<string, Formatter> = {
+    upper: value => valueToString(value).toUpperCase(),
+
+    lower: value => valueToString(value).toLowerCase(),
+
+    capitalize: value => valueToString(value).replace(/(^|\s)\S/g, char => char.toUpperCase()),
+
+    trim: value => valueToString(value).trim(),
+
+    default: (value, fallback = '') => {
+        const isEmpty = value === undefined || value === null || value === '' ||
+            (Array.isArray(value) && value.length === 0);
+        return isEmpty ? fallback : value;
+    },
+
+    number: (value, decimals = '0', locale = 'en-US') => {
+        const number = toNumber(value);
+        if (number === null) return value;
+        return new Intl.NumberFormat(locale, {
+            minimumFractionDigits: Number(decimals),
+            maximumFractionDigits: Number(decimals)
+        }).format(number);
+    },
+
+    currency: (value, currency = 'USD', locale = 'en-US') => {
+        const number = toNumber(value);
+        if (number === null) return value;
+        return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(number);
+    },
+
+    percent: (value, decimals = '0', locale = 'en-US') => {
+        const number = toNumber(value);
+        if (number === null) return value;
+        return new Intl.NumberFormat(locale, {
+            style: 'percent',
+            minimumFractionDigits: Number(decimals),
+            maximumFractionDigits: Number(decimals)
+        }).format(number);
+    },
+
+    date: (value, pattern = 'yyyy-MM-dd') => {
+        const date = toDate(value);
+        if (date === null) return value;
+        return formatDate(date, pattern);
+    }
+};
+
+/**
+ * Run a value through a chain of formatters
+ */
+export const applyFormatters = (
+    value: PlaceholderValue | undefined,
+    calls: FormatterCall[],
+    formatters: Record<string, Formatter>
+): PlaceholderValue | undefined => {
+    return calls.reduce<PlaceholderValue | undefined>((current, call) => {
+        const formatter = formatters[call.name];
+        if (!formatter) {
+            throw new Error(`Unknown formatter: ${call.name}`);
+        }
+        return formatter(current, ...call.args);
+    }, value);
+};
@@ -0,0 +1,641 @@
+/**
+ * HTML fragment to WordprocessingML conversion
+ *
+ * Supports a practical subset of HTML: p, div, blockquote, pre, h1-h6,
+ * b/strong, i/em, u, s/strike/del, sup/sub, code, span with
+ * style="color; font-size", br, ul/ol/li, a, table and img.
+ */
+
+import { RunContext } from './runs';
+import { buildRunProperties, cloneParagraphProperties, renderRichText, RunFormatting } from './richtext';
+import { pixelsToEmu } from './image';
+import { escapeForXml } from './string';
+
+/**
+ * An element of a parsed HTML fragment
+ */
+export interface HtmlElement {
+    /** Lower-case tag name */
+    tag: string;
+    /** Attributes with lower-case names and decoded values */
+    attributes: Record<string, string>;
+    /** Child elements and text */
+    children: HtmlNode[];
+}
+
+/**
+ * A node of a parsed HTML fragment: an element or decoded text
+ */
+export type HtmlNode = HtmlElement | string;
+
+/**
+ * Package-level resources the conversion needs
+ */
+export interface HtmlResources {
+    /** Relationship ID of an external hyperlink */
+    hyperlink: (url: string) => string;
+    /** Drawing XML for an image source (size in EMUs), or null if it could not be loaded */
+    image: (source: string, width?: number, height?: number) => string | null;
+    /** Numbering ID for a new bulleted or numbered list */
+    list: (ordered: boolean) => number;
+    /** ID of the template's style with the given name (e.g. "heading 1"), or null */
+    style: (name: string, type?: 'paragraph' | 'character') => string | null;
+}
+
+/**
+ * Formatting and resources while rendering
+ */
+interface RenderState {
+    context: RunContext;
+    resources: HtmlResources;
+}
+
+/**
+ * A piece of paragraph content after inline elements are flattened
+ */
+interface InlineItem {
+    type: 'text' | 'break' | 'image';
+    text?: string;
+    source?: string;
+    width?: number;
+    height?: number;
+    formatting: RunFormatting;
+    link?: string;
+}
+
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'blockquote', 'pre', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'hr'
+]);
+
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'wbr', 'col', 'meta', 'link', 'input', 'source']);
+
+const IGNORED_TAGS = new Set(['script', 'style', 'head', 'title', 'template']);
+
+const TAG_FORMATTING: Record<string, RunFormatting> = {
+    b: { bold: true },
+    strong: { bold: true },
+    i: { italic: true },
+    em: { italic: true },
+    u: { underline: true },
+    s: { strike: true },
+    strike: { strike: true },
+    del: { strike: true },
+    sup: { superscript: true },
+    sub: { subscript: true },
+    code: { font: 'Courier New' }
+};
+
+/** Heading font sizes in half-points */
+const HEADING_SIZES = [32, 28, 26, 24, 22, 20];
+
+const LINK_FORMATTING: RunFormatting = { color: '0563C1', underline: true };
+
+const NAMED_COLORS: Record<string, string> = {
+    black: '000000',
+    white: 'FFFFFF',
+    red: 'FF0000',
+    green: '008000',
+    blue: '0000FF',
+    yellow: 'FFFF00',
+    orange: 'FFA500',
+    purple: '800080',
+    gray: '808080',
+    grey: '808080'
+};
+
+/** Width of generated tables in twips (6.25 inches) */
+const TABLE_WIDTH = 9000;
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    ndash: '–',
+    mdash: '—',
+    hellip: '…',
+    copy: '©',
+    reg: '®',
+    euro: '€'
+};
+
+/**
+ * Decode HTML character references
+ */
+const decodeEntities = (text: string): string => {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return isNaN(code) ? entity : String.fromCodePoint(code);
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+};
+
+/**
+ * Parse the attributes of an opening tag
+ */
+const parseAttributes = (text: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    const regex = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+};
+
+/**
+ * Parse an HTML fragment into a tree. Unclosed p, li, td, th and tr
+ * elements are closed the way browsers do.
+ */
+export const parseHtml = (html: string): HtmlNode[] => {
+    const root: HtmlElement = { tag: '#root', attributes: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+
+    // Close the innermost open element named in tags, unless a boundary element comes first
+    const closeTo = (tags: string[], boundaries: string[] = []): void => {
+        for (let i = stack.length - 1; i > 0; i--) {
+            if (tags.includes(stack[i].tag)) {
+                stack.length = i;
+                return;
+            }
+            if (boundaries.includes(stack[i].tag)) return;
+        }
+    };
+
+    const regex = /<!--[\s\S]*?-->|<!\w[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+|<)/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(html)) !== null) {
+        const current = stack[stack.length - 1];
+
+        if (match[4] !== undefined) {
+            current.children.push(decodeEntities(match[4]));
+            continue;
+        }
+        if (!match[2]) continue;
+
+        const tag = match[2].toLowerCase();
+        if (match[1]) {
+            closeTo([tag]);
+            continue;
+        }
+
+        if (BLOCK_TAGS.has(tag)) closeTo(['p'], ['li', 'td', 'th', 'div', 'blockquote', 'table', 'ul', 'ol']);
+        if (tag === 'li') closeTo(['li'], ['ul', 'ol']);
+        if (tag === 'td' || tag === 'th') closeTo(['td', 'th'], ['tr', 'table']);
+        if (tag === 'tr') closeTo(['tr'], ['table']);
+
+        const element: HtmlElement = { tag, attributes: parseAttributes(match[3]), children: [] };
+        stack[stack.length - 1].children.push(element);
+        if (!VOID_TAGS.has(tag) && !/\/\s*$/.test(match[3])) {
+            stack.push(element);
+        }
+    }
+
+    return root.children;
+};
+
+/**
+ * Check whether a node is an element (optionally one of the given tags)
+ */
+const isElement = (node: HtmlNode, ...tags: string[]): node is HtmlElement => {
+    return typeof node !== 'string' && (tags.length === 0 || tags.includes(node.tag));
+};
+
+/**
+ * Check whether parsed HTML only has inline content and can stay inside the host paragraph
+ */
+export const isInlineHtml = (nodes: HtmlNode[]): boolean => {
+    return nodes.every(node => !isElement(node) ||
+        IGNORED_TAGS.has(node.tag) ||
+        (!BLOCK_TAGS.has(node.tag) && isInlineHtml(node.children))
+    );
+};
+
+/**
+ * List the image sources in parsed HTML
+ */
+export const getHtmlImageSources = (nodes: HtmlNode[]): string[] => {
+    return nodes.flatMap(node => {
+        if (!isElement(node)) return [];
+        if (node.tag === 'img') return node.attributes.src ? [node.attributes.src] : [];
+        return getHtmlImageSources(node.children);
+    });
+};
+
+/**
+ * Convert a CSS color to hex
+ */
+const parseColor = (color: string): string | undefined => {
+    const value = color.trim().toLowerCase();
+
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+        return digits.toUpperCase();
+    }
+
+    const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+    if (rgb) {
+        return rgb.slice(1, 4)
+            .map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+            .join('')
+            .toUpperCase();
+    }
+
+    return NAMED_COLORS[value];
+};
+
+/**
+ * Convert a CSS font size (pt or px) to half-points
+ */
+const parseFontSize = (size: string): number | undefined => {
+    const match = size.trim().toLowerCase().match(/^([\d.]+)\s*(pt|px)?$/);
+    if (!match) return undefined;
+
+    const points = match[2] === 'px' ? Number(match[1]) * 0.75 : Number(match[1]);
+    return isNaN(points) ? undefined : Math.round(points * 2);
+};
+
+/**
+ * Read run formatting from an element's tag and inline style
+ */
+const elementFormatting = (element: HtmlElement): RunFormatting => {
+    const formatting: RunFormatting = { ...TAG_FORMATTING[element.tag] };
+
+    for (const declaration of (element.attributes.style || '').split(';')) {
+        const [property, ...rest] = declaration.split(':');
+        const value = rest.join(':').trim().toLowerCase();
+        switch (property.trim().toLowerCase()) {
+            case 'color':
+                formatting.color = parseColor(value) ?? formatting.color;
+                break;
+            case 'font-size':
+                formatting.size = parseFontSize(value) ?? formatting.size;
+                break;
+            case 'font-weight':
+                formatting.bold = value === 'bold' || Number(value) >= 600;
+                break;
+            case 'font-style':
+                formatting.italic = value === 'italic';
+                break;
+            case 'text-decoration':
+                if (value.includes('underline')) formatting.underline = true;
+                if (value.includes('line-through')) formatting.strike = true;
+                break;
+        }
+    }
+
+    return formatting;
+};
+
+/**
+ * Read an image size attribute (or style) in pixels as EMUs
+ */
+const imageSize = (element: HtmlElement, dimension: 'width' | 'height'): number | undefined => {
+    const style = (element.attributes.style || '').match(new RegExp(`(?:^|;)\\s*${dimension}\\s*:\\s*([\\d.]+)px`, 'i'));
+    const pixels = Number(style ? style[1] : element.attributes[dimension]);
+    return pixels > 0 ? pixelsToEmu(pixels) : undefined;
+};
+
+/**
+ * Get the text of a node and its descendants, keeping whitespace
+ */
+const getText = (node: HtmlNode): string => {
+    if (!isElement(node)) return node;
+    return node.tag === 'br' ? '\n' : node.children.map(getText).join('');
+};
+
+/**
+ * Read paragraph alignment from an align attribute or text-align style
+ */
+const alignmentProperties = (element: HtmlElement): string => {
+    const style = (element.attributes.style || '').match(/(?:^|;)\s*text-align\s*:\s*(\w+)/i);
+    const align = (style ? style[1] : element.attributes.align || '').toLowerCase();
+    const value = ({ left: 'left', center: 'center', right: 'right', justify: 'both' } as Record<string, string>)[align];
+    return value ? `<w:pPr><w:jc w:val="${value}"/></w:pPr>` : '';
+};
+
+/**
+ * Formatting for link text: the template's Hyperlink character style,
+ * or blue underlined text if it has none
+ */
+const getLinkFormatting = (resources: HtmlResources): RunFormatting => {
+    const styleId = resources.style('hyperlink', 'character');
+    return styleId ? { styleId } : LINK_FORMATTING;
+};
+
+/**
+ * Flatten inline content into text, breaks and images.
+ * Block elements met here (e.g. a <p> inside <li>) become line breaks.
+ */
+const collectInline = (
+    nodes: HtmlNode[],
+    formatting: RunFormatting,
+    link: string | undefined,
+    items: InlineItem[],
+    linkFormatting: RunFormatting
+): InlineItem[] => {
+    for (const node of nodes) {
+        if (!isElement(node)) {
+            items.push({ type: 'text', text: node, formatting, link });
+            continue;
+        }
+        if (IGNORED_TAGS.has(node.tag)) continue;
+
+        if (node.tag === 'br') {
+            items.push({ type: 'break', formatting, link });
+        } else if (node.tag === 'img') {
+            if (node.attributes.src) {
+                items.push({
+                    type: 'image',
+                    source: node.attributes.src,
+                    width: imageSize(node, 'width'),
+                    height: imageSize(node, 'height'),
+                    formatting,
+                    link
+                });
+            }
+        } else if (node.tag === 'a') {
+            const href = node.attributes.href;
+            const isLink = !!href && href !== '#';
+            const anchorFormatting = isLink ? { ...formatting, ...linkFormatting } : formatting;
+            collectInline(node.children, { ...anchorFormatting, ...elementFormatting(node) }, isLink ? href : link, items, linkFormatting);
+        } else {
+            if (BLOCK_TAGS.has(node.tag) && items.length > 0) {
+                items.push({ type: 'break', formatting, link });
+            }
+            collectInline(node.children, { ...formatting, ...elementFormatting(node) }, link, items, linkFormatting);
+        }
+    }
+
+    return items;
+};
+
+/**
+ * Collapse whitespace the way browsers do and drop it at the start and end of lines
+ */
+const normalizeWhitespace = (items: InlineItem[]): InlineItem[] => {
+    let atLineStart = true;
+    for (const item of items) {
+        if (item.type === 'text') {
+            let text = item.text!.replace(/[ \t\r\n\f]+/g, ' ');
+            if (atLineStart) text = text.replace(/^ /, '');
+            item.text = text;
+            if (text !== '') atLineStart = text.endsWith(' ');
+        } else {
+            atLineStart = item.type === 'break';
+        }
+    }
+
+    let atLineEnd = true;
+    for (let i = items.length - 1; i >= 0; i--) {
+        const item = items[i];
+        if (item.type === 'text') {
+            if (atLineEnd) item.text = item.text!.replace(/ $/, '');
+            if (item.text !== '') atLineEnd = false;
+        } else {
+            atLineEnd = item.type === 'break';
+        }
+    }
+
+    return items.filter(item => item.type !== 'text' || item.text !== '');
+};
+
+/**
+ * Render flattened inline content as runs, grouping linked runs in <w:hyperlink>.
+ * Links starting with # go to a bookmark in the document.
+ */
+const renderItems = (items: InlineItem[], state: RenderState): string => {
+    const renderItem = (item: InlineItem): string => {
+        const runProperties = buildRunProperties(state.context.runProperties, item.formatting);
+        if (item.type === 'break') {
+            return `<w:r>${runProperties}<w:br/></w:r>`;
+        }
+        if (item.type === 'image') {
+            const drawing = state.resources.image(item.source!, item.width, item.height);
+            return drawing ? `<w:r>${runProperties}${drawing}</w:r>` : '';
+        }
+        return renderRichText([{ text: item.text!, ...item.formatting }], state.context);
+    };
+
+    let xml = '';
+    let index = 0;
+    while (index < items.length) {
+        const link = items[index].link;
+        let runs = '';
+        while (index < items.length && items[index].link === link) {
+            runs += renderItem(items[index++]);
+        }
+        if (!link) {
+            xml += runs;
+        } else if (link.startsWith('#')) {
+            xml += `<w:hyperlink w:anchor="${escapeForXml(link.slice(1))}" w:history="1">${runs}</w:hyperlink>`;
+        } else {
+            xml += `<w:hyperlink r:id="${state.resources.hyperlink(link)}" w:history="1">${runs}</w:hyperlink>`;
+        }
+    }
+
+    return xml;
+};
+
+/**
+ * Render inline content as one paragraph, or nothing if it is empty
+ */
+const renderParagraph = (
+    nodes: HtmlNode[],
+    formatting: RunFormatting,
+    paragraphProperties: string,
+    state: RenderState
+): string => {
+    const items = normalizeWhitespace(collectInline(nodes, formatting, undefined, [], getLinkFormatting(state.resources)));
+    if (items.length === 0) return '';
+    return `<w:p>${paragraphProperties}${renderItems(items, state)}</w:p>`;
+};
+
+/**
+ * Render preformatted text as one paragraph in a monospace font, keeping
+ * spaces, tabs and line breaks
+ */
+const renderPreformatted = (
+    element: HtmlElement,
+    formatting: RunFormatting,
+    paragraphProperties: string,
+    state: RenderState
+): string => {
+    const preFormatting = { ...formatting, font: 'Courier New', ...elementFormatting(element) };
+    const lines = getText(element).replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+
+    const items = lines.flatMap((line, index): InlineItem[] => [
+        ...(index > 0 ? [{ type: 'break' as const, formatting: preFormatting }] : []),
+        ...(line !== '' ? [{ type: 'text' as const, text: line, formatting: preFormatting }] : [])
+    ]);
+    if (items.length === 0) return '';
+
+    return `<w:p>${paragraphProperties}${renderItems(items, state)}</w:p>`;
+};
+
+/**
+ * Render a <ul> or <ol> as numbered paragraphs; nested lists go one level deeper
+ */
+const renderList = (list: HtmlElement, formatting: RunFormatting, level: number, state: RenderState): string => {
+    const numId = state.resources.list(list.tag === 'ol');
+    const listStyle = state.resources.style('list paragraph');
+    const styleProperty = listStyle ? `<w:pStyle w:val="${listStyle}"/>` : '';
+
+    return list.children
+        .filter((child): child is HtmlElement => isElement(child, 'li'))
+        .map(item => {
+            const itemFormatting = { ...formatting, ...elementFormatting(item) };
+            const nested = item.children.filter((child): child is HtmlElement => isElement(child, 'ul', 'ol'));
+            const content = item.children.filter(child => !nested.includes(child as HtmlElement));
+            const properties = `<w:pPr>${styleProperty}<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr></w:pPr>`;
+
+            return renderParagraph(content, itemFormatting, properties, state) +
+                nested.map(child => renderList(child, itemFormatting, Math.min(level + 1, 8), state)).join('');
+        })
+        .join('');
+};
+
+/**
+ * Render a <table> with equal column widths. Rows in <thead> or made of
+ * <th> cells repeat as header rows.
+ */
+const renderTable = (table: HtmlElement, formatting: RunFormatting, state: RenderState): string => {
+    const rows: { cells: HtmlElement[]; header: boolean }[] = [];
+    const collectRows = (element: HtmlElement, inHead: boolean): void => {
+        for (const child of element.children) {
+            if (isElement(child, 'tr')) {
+                const cells = child.children.filter((cell): cell is HtmlElement => isElement(cell, 'td', 'th'));
+                if (cells.length > 0) {
+                    rows.push({ cells, header: inHead || cells.every(cell => cell.tag === 'th') });
+                }
+            } else if (isElement(child, 'thead', 'tbody', 'tfoot')) {
+                collectRows(child, child.tag === 'thead');
+            }
+        }
+    };
+    collectRows(table, false);
+    if (rows.length === 0) return '';
+
+    const span = (cell: HtmlElement): number => Math.max(1, parseInt(cell.attributes.colspan, 10) || 1);
+    const columns = Math.max(...rows.map(row => row.cells.reduce((sum, cell) => sum + span(cell), 0)));
+    const width = Math.floor(TABLE_WIDTH / columns);
+
+    const rowsXml = rows.map(row => {
+        const cells = row.cells.map(cell => {
+            const cellFormatting = {
+                ...formatting,
+                ...(cell.tag === 'th' ? { bold: true } : {}),
+                ...elementFormatting(cell)
+            };
+            let content = renderBlocks(cell.children, cellFormatting, alignmentProperties(cell), state);
+            if (!/(<\/w:p>|<w:p\/>)$/.test(content)) content += '<w:p/>';
+
+            const gridSpan = span(cell) > 1 ? `<w:gridSpan w:val="${span(cell)}"/>` : '';
+            return `<w:tc><w:tcPr><w:tcW w:w="${width * span(cell)}" w:type="dxa"/>${gridSpan}</w:tcPr>${content}</w:tc>`;
+        }).join('');
+
+        return `<w:tr>${row.header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+    }).join('');
+
+    const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+        .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`)
+        .join('');
+
+    return '<w:tbl>' +
+        `<w:tblPr><w:tblW w:w="${width * columns}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders>` +
+        '<w:tblLayout w:type="fixed"/></w:tblPr>' +
+        `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+        `${rowsXml}</w:tbl>`;
+};
+
+/**
+ * Render a heading with the template's heading style. Without one, the
+ * heading only gets direct formatting: bold, larger text and an outline level,
+ * as a style ID missing from the template would be dropped by Word.
+ */
+const renderHeading = (element: HtmlElement, level: number, formatting: RunFormatting, state: RenderState): string => {
+    const styleId = state.resources.style(`heading ${level}`);
+
+    if (styleId) {
+        // Let the style decide the font instead of the placeholder's run
+        const styledState = { ...state, context: { ...state.context, runProperties: '' } };
+        const properties = `<w:pPr><w:pStyle w:val="${styleId}"/></w:pPr>`;
+        return renderParagraph(element.children, { ...formatting, ...elementFormatting(element) }, properties, styledState);
+    }
+
+    const properties = `<w:pPr><w:keepNext/><w:outlineLvl w:val="${level - 1}"/></w:pPr>`;
+    const headingFormatting = { ...formatting, bold: true, size: HEADING_SIZES[level - 1], ...elementFormatting(element) };
+    return renderParagraph(element.children, headingFormatting, properties, state);
+};
+
+/**
+ * Render block content: runs of inline content become paragraphs with the
+ * given properties, headings, lists and tables get their own structure
+ */
+const renderBlocks = (
+    nodes: HtmlNode[],
+    formatting: RunFormatting,
+    paragraphProperties: string,
+    state: RenderState
+): string => {
+    let xml = '';
+    let pending: HtmlNode[] = [];
+    const flush = (): void => {
+        xml += renderParagraph(pending, formatting, paragraphProperties, state);
+        pending = [];
+    };
+
+    for (const node of nodes) {
+        if (!isElement(node) || !BLOCK_TAGS.has(node.tag)) {
+            pending.push(node);
+            continue;
+        }
+
+        flush();
+        const heading = node.tag.match(/^h([1-6])$/);
+        if (heading) {
+            xml += renderHeading(node, Number(heading[1]), formatting, state);
+        } else if (node.tag === 'pre') {
+            xml += renderPreformatted(node, formatting, paragraphProperties, state);
+        } else if (node.tag === 'blockquote') {
+            const quoteStyle = state.resources.style('quote');
+            const quoteProperties = quoteStyle
+                ? `<w:pPr><w:pStyle w:val="${quoteStyle}"/></w:pPr>`
+                : '<w:pPr><w:ind w:left="720"/></w:pPr>';
+            xml += renderBlocks(node.children, { ...formatting, ...elementFormatting(node) }, quoteProperties, state);
+        } else if (node.tag === 'ul' || node.tag === 'ol') {
+            xml += renderList(node, { ...formatting, ...elementFormatting(node) }, 0, state);
+        } else if (node.tag === 'table') {
+            xml += renderTable(node, { ...formatting, ...elementFormatting(node) }, state);
+        } else if (node.tag !== 'hr') {
+            xml += renderBlocks(node.children, { ...formatting, ...elementFormatting(node) }, paragraphProperties, state);
+        }
+    }
+    flush();
+
+    return xml;
+};
+
+/**
+ * Render inline HTML as runs inside the host paragraph
+ */
+export const renderHtmlInline = (nodes: HtmlNode[], context: RunContext, resources: HtmlResources): string => {
+    const items = normalizeWhitespace(collectInline(nodes, {}, undefined, [], getLinkFormatting(resources)));
+    return renderItems(items, { context, resources });
+};
+
+/**
+ * Render HTML as paragraphs, lists and tables replacing the host paragraph.
+ * Plain paragraphs keep the host paragraph's properties and all text inherits
+ * the host run's formatting.
+ */
+export const renderHtmlBlocks = (nodes: HtmlNode[], context: RunContext, resources: HtmlResources): string => {
+    return renderBlocks(nodes, {}, cloneParagraphProperties(context.paragraphProperties), { context, resources });
+};
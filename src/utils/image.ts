@@ -5,9 +5,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
-import { ImageConfig } from '../types';
+import { ImageConfig, ImageSize } from '../types';
 import { generateImageId } from './string';
-import { generateImageRelationship, generateInlineImage } from './constants';
+import { generateImageRelationship, generateInlineImage, generateAnchoredImage } from './constants';
+import { ImageDimensions, readImageDimensions } from './dimensions';
 
 /**
  * Load image from file path
@@ -48,7 +49,50 @@ export const getImageBuffer = async (config: ImageConfig): Promise<Buffer> => {
 };
 
 /**
- * Get image extension from path or URL
+ * Build an image config from a source string: a data: URI, an http(s) URL or a file path
+ */
+export const imageConfigFromSource = (source: string, placeholder: string = source): ImageConfig => {
+    const dataUri = source.match(/^data:[^;,]*(;base64)?,([\s\S]*)$/);
+    if (dataUri) {
+        const buffer = dataUri[1]
+            ? Buffer.from(dataUri[2], 'base64')
+            : Buffer.from(decodeURIComponent(dataUri[2]));
+        return { placeholder, buffer };
+    }
+
+    if (/^https?:\/\//i.test(source)) {
+        return { placeholder, url: source };
+    }
+
+    return { placeholder, path: source };
+};
+
+/**
+ * Detect the image format of a buffer from its signature
+ */
+export const detectImageExtension = (buffer: Buffer): string | null => {
+    const signatures: [string, number[]][] = [
+        ['png', [0x89, 0x50, 0x4e, 0x47]],
+        ['jpg', [0xff, 0xd8, 0xff]],
+        ['gif', [0x47, 0x49, 0x46, 0x38]],
+        ['bmp', [0x42, 0x4d]]
+    ];
+
+    for (const [extension, bytes] of signatures) {
+        if (bytes.every((byte, index) => buffer[index] === byte)) {
+            return extension;
+        }
+    }
+
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+        return 'webp';
+    }
+
+    return null;
+};
+
+/**
+ * Get image extension from path or URL, or from the data of a buffer
  */
 export const getImageExtension = (config: ImageConfig): string => {
     if (config.path) {
@@ -60,14 +104,22 @@ export const getImageExtension = (config: ImageConfig): string => {
         return path.extname(urlPath).toLowerCase().replace('.', '') || 'png';
     }
 
+    if (config.buffer) {
+        return detectImageExtension(config.buffer) || 'png';
+    }
+
     return 'png';
 };
 
 /**
- * Generate image file name for media folder
+ * Generate image file name for media folder, skipping the names already taken
  */
-export const generateImageFileName = (index: number, extension: string): string => {
-    return `image${index + 1}.${extension}`;
+export const generateImageFileName = (index: number, extension: string, existingFileNames: string[] = []): string => {
+    let number = index + 1;
+    while (existingFileNames.includes(`image${number}.${extension}`)) {
+        number++;
+    }
+    return `image${number}.${extension}`;
 };
 
 /**
@@ -79,8 +131,17 @@ export interface PreparedImage {
     fileName: string;
     extension: string;
     relationshipXml: string;
+    /** The drawing, in line with the text or floating */
     inlineXml: string;
     placeholder: string;
+    /** Width shown in EMUs */
+    width: number;
+    /** Height shown in EMUs */
+    height: number;
+    /** Size and resolution read from the file, or null for formats that can't be read */
+    dimensions: ImageDimensions | null;
+    /** How the image fills the template pictures it replaces, if it replaces pictures */
+    pictureFit?: 'fill' | 'contain';
 }
 
 /**
@@ -89,11 +150,12 @@ export interface PreparedImage {
 export const prepareImage = async (
     config: ImageConfig,
     index: number,
-    existingIds: string[]
+    existingIds: string[],
+    existingFileNames: string[] = []
 ): Promise<PreparedImage> => {
     const buffer = await getImageBuffer(config);
     const extension = getImageExtension(config);
-    const fileName = generateImageFileName(index, extension);
+    const fileName = generateImageFileName(index, extension, existingFileNames);
 
     // Generate unique ID
     let id = config.id || generateImageId();
@@ -103,13 +165,21 @@ export const prepareImage = async (
         counter++;
     }
 
+    const dimensions = readImageDimensions(buffer, detectImageExtension(buffer));
+    const { width, height } = fitImageSize(dimensions, config);
+
     const relationshipXml = generateImageRelationship(id, fileName);
-    const inlineXml = generateInlineImage(
-        id,
-        config.width || 914400,
-        config.height || config.width || 914400,
-        `Image ${index + 1}`
-    );
+    const { layout } = config;
+    const inlineXml = layout
+        ? generateAnchoredImage(id, width, height, `Image ${index + 1}`, {
+            wrap: layout.wrap ?? 'square',
+            horizontalFrom: layout.horizontalFrom ?? 'column',
+            x: parseImageSize(layout.x ?? 0),
+            verticalFrom: layout.verticalFrom ?? 'paragraph',
+            y: parseImageSize(layout.y ?? 0),
+            zIndex: layout.zIndex ?? 0
+        })
+        : generateInlineImage(id, width, height, `Image ${index + 1}`);
 
     return {
         id,
@@ -118,7 +188,11 @@ export const prepareImage = async (
         extension,
         relationshipXml,
         inlineXml,
-        placeholder: config.placeholder
+        placeholder: config.placeholder,
+        width,
+        height,
+        dimensions,
+        pictureFit: config.replacePicture ? config.pictureFit ?? 'fill' : undefined
     };
 };
 
@@ -128,6 +202,7 @@ export const prepareImage = async (
 export const EMU_PER_INCH = 914400;
 export const EMU_PER_CM = 360000;
 export const EMU_PER_PIXEL = 9525; // At 96 DPI
+export const EMU_PER_TWIP = 635;
 
 /**
  * Convert pixels to EMUs
@@ -149,3 +224,113 @@ export const inchesToEmu = (inches: number): number => {
 export const cmToEmu = (cm: number): number => {
     return Math.round(cm * EMU_PER_CM);
 };
+
+/**
+ * Convert an image dimension or offset in EMUs or with a unit ('5cm', '40mm', '2in', '72pt', '300px') to EMUs
+ */
+export const parseImageSize = (size: ImageSize): number => {
+    if (typeof size === 'number') return Math.round(size);
+
+    const match = size.trim().match(/^(-?(?:\d+(?:\.\d+)?|\.\d+))\s*(cm|mm|in|pt|px)$/i);
+    if (!match) {
+        throw new Error(`Invalid image size "${size}": use EMUs or a number with cm, mm, in, pt or px`);
+    }
+
+    const value = Number(match[1]);
+    switch (match[2].toLowerCase()) {
+        case 'cm': return cmToEmu(value);
+        case 'mm': return cmToEmu(value / 10);
+        case 'in': return inchesToEmu(value);
+        case 'pt': return inchesToEmu(value / 72);
+        default: return pixelsToEmu(value);
+    }
+};
+
+/**
+ * Get the size of an image in EMUs from its pixel size and resolution (96 DPI if it has none)
+ */
+export const getNaturalSize = (dimensions: ImageDimensions): { width: number; height: number } => ({
+    width: dimensions.dpiX ? inchesToEmu(dimensions.width / dimensions.dpiX) : pixelsToEmu(dimensions.width),
+    height: dimensions.dpiY ? inchesToEmu(dimensions.height / dimensions.dpiY) : pixelsToEmu(dimensions.height)
+});
+
+/**
+ * Work out the size an image is shown at, in EMUs. A missing width or height follows
+ * from the other one and the image's aspect ratio; with neither, the image keeps its
+ * own size. The result is then scaled down to fit maxWidth and maxHeight. Images of
+ * unknown size are square, 914400 EMUs (1 inch) unless sized.
+ */
+export const fitImageSize = (
+    dimensions: ImageDimensions | null,
+    size: Pick<ImageConfig, 'width' | 'height' | 'maxWidth' | 'maxHeight'>
+): { width: number; height: number } => {
+    const natural = dimensions ? getNaturalSize(dimensions) : { width: EMU_PER_INCH, height: EMU_PER_INCH };
+    const ratio = natural.height / natural.width;
+
+    let width = size.width !== undefined ? parseImageSize(size.width) : undefined;
+    let height = size.height !== undefined ? parseImageSize(size.height) : undefined;
+    if (width === undefined && height === undefined) {
+        ({ width, height } = natural);
+    }
+    width ??= height! / ratio;
+    height ??= width * ratio;
+
+    const maxWidth = size.maxWidth !== undefined ? parseImageSize(size.maxWidth) : Infinity;
+    const maxHeight = size.maxHeight !== undefined ? parseImageSize(size.maxHeight) : Infinity;
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/**
+ * Replace the pictures (w:drawing) of a part whose alt text (descr), title or name matches
+ */
+export const replacePictures = (
+    xml: string,
+    matches: (label: string) => boolean,
+    replace: (drawing: string) => string
+): string => {
+    return xml.replace(/<w:drawing>[\s\S]*?<\/w:drawing>/g, drawing => {
+        const docPr = drawing.match(/<wp:docPr\b[^>]*>/)?.[0] ?? '';
+        const labels = ['descr', 'title', 'name']
+            .map(attribute => docPr.match(new RegExp(`\\s${attribute}="([^"]*)"`))?.[1])
+            .filter((label): label is string => !!label);
+        return /<a:blip\b[^>]*\sr:embed="/.test(drawing) && labels.some(matches) ? replace(drawing) : drawing;
+    });
+};
+
+/**
+ * Size that fits an image in a picture's frame, keeping the image's aspect ratio
+ * as it shows after the picture's cropping (a:srcRect, in 1/1000ths of a percent)
+ */
+export const fitPictureFrame = (drawing: string, dimensions: ImageDimensions): { width: number; height: number } | null => {
+    const extent = drawing.match(/<wp:extent\b[^>]*\scx="(\d+)"[^>]*\scy="(\d+)"/);
+    if (!extent) return null;
+
+    const crop = (side: string) => Number(drawing.match(new RegExp(`<a:srcRect\\b[^>]*\\s${side}="(-?\\d+)"`))?.[1] ?? 0) / 100000;
+    const natural = getNaturalSize(dimensions);
+    const shownWidth = natural.width * (1 - crop('l') - crop('r'));
+    const shownHeight = natural.height * (1 - crop('t') - crop('b'));
+    if (shownWidth <= 0 || shownHeight <= 0) return null;
+
+    const [frameWidth, frameHeight] = [Number(extent[1]), Number(extent[2])];
+    const scale = Math.min(frameWidth / shownWidth, frameHeight / shownHeight);
+    return { width: Math.round(shownWidth * scale), height: Math.round(shownHeight * scale) };
+};
+
+/**
+ * Show another image in a template picture: point its blip at the image's
+ * relationship, and resize its frame if a size is given
+ */
+export const swapPicture = (drawing: string, relationshipId: string, size?: { width: number; height: number }): string => {
+    let result = drawing.replace(/(<a:blip\b[^>]*\sr:embed=")[^"]*"/, `$1${relationshipId}"`);
+    if (size) {
+        const resize = (tag: string) => tag
+            .replace(/\scx="\d+"/, ` cx="${size.width}"`)
+            .replace(/\scy="\d+"/, ` cy="${size.height}"`);
+        result = result
+            .replace(/<wp:extent\b[^>]*>/, resize)
+            .replace(/<a:ext\b[^>]*\scx="[^>]*>/, resize);
+    }
+    return result;
+};
@@ -0,0 +1,101 @@
+/**
+ * Template inspection utilities
+ */
+
+import { Delimiters, PlaceholderInfo, PlaceholderKind } from '../types';
+import { getParagraphTexts } from './runs';
+import { parseExpression } from './format';
+import { parsePath } from './data';
+import { DEFAULT_DELIMITERS, getPlaceholderPattern, unescapeXml } from './string';
+
+/**
+ * Names of placeholders configured for tables and images
+ */
+export interface InspectOptions {
+    /** Placeholder delimiters */
+    delimiters?: Delimiters;
+    /** Names of table placeholders (for template tables, the record name used in {{item.key}}) */
+    tables?: string[];
+    /** Names of image placeholders */
+    images?: string[];
+    /** Names that may also appear without delimiters as a whole text run (e.g. <w:t>name</w:t>) */
+    rawNames?: string[];
+}
+
+/**
+ * Parts of a DOCX package that hold document text
+ */
+export const TEXT_PART_REGEX = /^word\/(document|header\d+|footer\d+|footnotes|endnotes|comments)\.xml$/;
+
+/**
+ * Work out the kind and data path of a placeholder from its text
+ */
+const classifyPlaceholder = (
+    name: string,
+    options: InspectOptions
+): { kind: PlaceholderKind; path: string } | null => {
+    const text = name.trim();
+
+    if (text.startsWith('/') || text === 'else') {
+        return null;
+    }
+
+    if (text.startsWith('#')) {
+        const [block, ...rest] = text.slice(1).trim().split(/\s+/);
+        return ['if', 'unless'].includes(block)
+            ? { kind: 'condition', path: rest.join(' ') }
+            : { kind: 'loop', path: block };
+    }
+
+    const path = parseExpression(text).path;
+    if (options.tables?.includes(path) || options.tables?.includes(parsePath(path)[0])) return { kind: 'table', path };
+    if (options.images?.includes(path)) return { kind: 'image', path };
+    return { kind: 'text', path };
+};
+
+/**
+ * List the placeholders in one XML part, including ones split across runs
+ */
+export const inspectPart = (xml: string, part: string, options: InspectOptions = {}): PlaceholderInfo[] => {
+    const delimiters = options.delimiters || DEFAULT_DELIMITERS;
+    const placeholders: PlaceholderInfo[] = [];
+
+    for (const paragraph of getParagraphTexts(xml)) {
+        const regex = new RegExp(getPlaceholderPattern(delimiters), 'g');
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(paragraph.text)) !== null) {
+            const name = unescapeXml(match[1]);
+            const classified = classifyPlaceholder(name, options);
+            if (!classified) continue;
+
+            const start = match.index;
+            const end = match.index + match[0].length;
+            placeholders.push({
+                name,
+                ...classified,
+                part,
+                paragraph: paragraph.index,
+                inTable: paragraph.inTable,
+                split: paragraph.nodeOffsets.some(offset => offset > start && offset < end)
+            });
+        }
+
+        // Placeholders written without delimiters fill a whole text node
+        paragraph.nodeOffsets.forEach((offset, index) => {
+            const nodeText = unescapeXml(paragraph.text.slice(offset, paragraph.nodeOffsets[index + 1])).trim();
+            if (!options.rawNames?.includes(nodeText)) return;
+
+            placeholders.push({
+                name: nodeText,
+                ...classifyPlaceholder(nodeText, options)!,
+                part,
+                paragraph: paragraph.index,
+                inTable: paragraph.inTable,
+                split: false
+            });
+        });
+    }
+
+    return placeholders;
+};
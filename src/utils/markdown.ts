@@ -0,0 +1,446 @@
+/**
+ * Markdown parsing into the HTML node tree rendered by ./html
+ *
+ * Supports ATX headings, paragraphs, emphasis, strikethrough, inline code,
+ * fenced code blocks, bulleted and numbered lists (nested by indentation),
+ * links, images, block quotes, horizontal rules and GitHub-flavored tables.
+ */
+
+import { HtmlElement, HtmlNode } from './html';
+
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_REGEX = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const RULE_REGEX = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_REGEX = /^ {0,3}> ?/;
+const LIST_ITEM_REGEX = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER_REGEX = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const ESCAPABLE_REGEX = /[!-/:-@[-`{-~]/;
+
+/**
+ * Create an element node
+ */
+const element = (tag: string, children: HtmlNode[] = [], attributes: Record<string, string> = {}): HtmlElement => {
+    return { tag, attributes, children };
+};
+
+/**
+ * Count the leading spaces of a line (a tab counts as four)
+ */
+const indentOf = (line: string): number => {
+    return line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+};
+
+/**
+ * Remove up to the given number of leading spaces from a line
+ */
+const outdent = (line: string, width: number): string => {
+    const expanded = line.replace(/^[ \t]+/, indent => indent.replace(/\t/g, '    '));
+    return expanded.slice(Math.min(width, indentOf(expanded)));
+};
+
+/**
+ * Split a table row into its cells. Escaped pipes stay in the cell text.
+ */
+const splitTableRow = (line: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    const row = line.trim().replace(/^\|/, '');
+
+    for (let i = 0; i < row.length; i++) {
+        if (row[i] === '\\' && row[i + 1] === '|') {
+            cell += '|';
+            i++;
+        } else if (row[i] === '|') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += row[i];
+        }
+    }
+    if (cell.trim() !== '' || !row.endsWith('|')) cells.push(cell.trim());
+
+    return cells;
+};
+
+/**
+ * Check whether a line starts a block other than a paragraph,
+ * which ends the paragraph before it
+ */
+const startsBlock = (line: string): boolean => {
+    return HEADING_REGEX.test(line) ||
+        FENCE_REGEX.test(line) ||
+        RULE_REGEX.test(line) ||
+        QUOTE_REGEX.test(line) ||
+        /^ {0,3}([-*+]|1[.)])[ \t]+\S/.test(line);
+};
+
+/**
+ * Find the end of a closing delimiter run for emphasis, skipping code spans
+ * and escapes. Returns the index of the closing delimiter or -1.
+ */
+const findClosingDelimiter = (text: string, from: number, delimiter: string): number => {
+    const char = delimiter[0];
+    let i = from;
+
+    while (i < text.length) {
+        if (text[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (text[i] === '`') {
+            const run = text.slice(i).match(/^`+/)![0];
+            const end = text.indexOf(run, i + run.length);
+            i = end === -1 ? i + run.length : end + run.length;
+            continue;
+        }
+        if (text[i] === char) {
+            const length = text.slice(i).match(new RegExp(`^\\${char}+`))![0].length;
+            const closing = i + length - delimiter.length;
+            const before = text[i - 1];
+            const after = text[i + length];
+            const flanking = i > from && before !== undefined && !/\s/.test(before) &&
+                (char !== '_' || after === undefined || !/[\p{L}\p{N}]/u.test(after));
+
+            if (flanking && (length === delimiter.length || length >= 3)) return closing;
+            i += length;
+            continue;
+        }
+        i++;
+    }
+
+    return -1;
+};
+
+/**
+ * Find the bracket closing the one at the given index, allowing nested brackets
+ */
+const findClosingBracket = (text: string, open: number): number => {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === '[') {
+            depth++;
+        } else if (text[i] === ']' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Get the plain text of parsed inline content (for image alt text)
+ */
+const plainText = (nodes: HtmlNode[]): string => {
+    return nodes.map(node => typeof node === 'string' ? node : plainText(node.children)).join('');
+};
+
+/**
+ * Parse inline Markdown: emphasis, strikethrough, code spans, links, images,
+ * autolinks, escapes and hard line breaks
+ */
+const parseInline = (text: string): HtmlNode[] => {
+    const nodes: HtmlNode[] = [];
+    let buffer = '';
+    const flush = (): void => {
+        if (buffer !== '') nodes.push(buffer);
+        buffer = '';
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+
+        // Escapes, and a backslash at the end of a line as a hard break
+        if (char === '\\') {
+            if (text[i + 1] === '\n') {
+                flush();
+                nodes.push(element('br'));
+                i += 2;
+                continue;
+            }
+            if (text[i + 1] !== undefined && ESCAPABLE_REGEX.test(text[i + 1])) {
+                buffer += text[i + 1];
+                i += 2;
+                continue;
+            }
+        }
+
+        // Two or more spaces at the end of a line make a hard break
+        if (char === '\n') {
+            if (/ {2,}$/.test(buffer)) {
+                buffer = buffer.replace(/ +$/, '');
+                flush();
+                nodes.push(element('br'));
+            } else {
+                buffer += '\n';
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '`') {
+            const run = text.slice(i).match(/^`+/)![0];
+            const end = text.indexOf(run, i + run.length);
+            if (end !== -1 && text[end + run.length] !== '`') {
+                let code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+                if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+                flush();
+                nodes.push(element('code', [code]));
+                i = end + run.length;
+                continue;
+            }
+            buffer += run;
+            i += run.length;
+            continue;
+        }
+
+        if (char === '<') {
+            const autolink = text.slice(i).match(/^<((?:https?|ftp|mailto):[^\s<>]+)>/i);
+            if (autolink) {
+                flush();
+                nodes.push(element('a', [autolink[1]], { href: autolink[1] }));
+                i += autolink[0].length;
+                continue;
+            }
+        }
+
+        // Links [text](url "title") and images ![alt](src "title")
+        const isImage = char === '!' && text[i + 1] === '[';
+        if (char === '[' || isImage) {
+            const open = isImage ? i + 1 : i;
+            const close = findClosingBracket(text, open);
+            const target = close === -1
+                ? null
+                : text.slice(close + 1).match(/^\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+("[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/);
+            if (target) {
+                const url = target[1].replace(/^<|>$/g, '');
+                const label = parseInline(text.slice(open + 1, close));
+                flush();
+                nodes.push(isImage
+                    ? element('img', [], { src: url, alt: plainText(label) })
+                    : element('a', label, { href: url }));
+                i = close + 1 + target[0].length;
+                continue;
+            }
+        }
+
+        // Emphasis (*, _), strong emphasis (**, __), both (***, ___) and strikethrough (~~)
+        if (char === '*' || char === '_' || char === '~') {
+            const run = text.slice(i).match(new RegExp(`^\\${char}+`))![0];
+            const next = text[i + run.length];
+            const previous = text[i - 1];
+            const canOpen = next !== undefined && !/\s/.test(next) &&
+                (char !== '_' || previous === undefined || !/[\p{L}\p{N}]/u.test(previous));
+
+            const delimiter = char === '~' ? '~~' : char.repeat(Math.min(run.length, 3));
+            if (canOpen && (char !== '~' || run.length === 2)) {
+                const start = i + run.length - delimiter.length;
+                const contentStart = start + delimiter.length;
+                const closing = findClosingDelimiter(text, contentStart, delimiter);
+                if (closing !== -1) {
+                    const children = parseInline(text.slice(contentStart, closing));
+                    buffer += text.slice(i, start);
+                    flush();
+                    if (char === '~') {
+                        nodes.push(element('del', children));
+                    } else if (delimiter.length === 3) {
+                        nodes.push(element('em', [element('strong', children)]));
+                    } else {
+                        nodes.push(element(delimiter.length === 2 ? 'strong' : 'em', children));
+                    }
+                    i = closing + delimiter.length;
+                    continue;
+                }
+            }
+            buffer += run;
+            i += run.length;
+            continue;
+        }
+
+        buffer += char;
+        i++;
+    }
+    flush();
+
+    return nodes;
+};
+
+/**
+ * Parse a GitHub-flavored table starting at the header row
+ */
+const parseTable = (lines: string[], start: number): { node: HtmlElement; next: number } => {
+    const header = splitTableRow(lines[start]);
+    const alignments = splitTableRow(lines[start + 1]).map(cell => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        if (cell.startsWith(':')) return 'left';
+        return '';
+    });
+
+    const row = (cells: string[], tag: 'th' | 'td'): HtmlElement => {
+        return element('tr', header.map((_, index) => {
+            const align = alignments[index];
+            return element(tag, parseInline(cells[index] ?? ''), align ? { align } : {});
+        }));
+    };
+
+    const body: HtmlElement[] = [];
+    let next = start + 2;
+    while (next < lines.length && lines[next].trim() !== '' && lines[next].includes('|') && !startsBlock(lines[next])) {
+        body.push(row(splitTableRow(lines[next]), 'td'));
+        next++;
+    }
+
+    return {
+        node: element('table', [element('thead', [row(header, 'th')]), element('tbody', body)]),
+        next
+    };
+};
+
+/**
+ * Parse a bulleted or numbered list starting at the given line.
+ * Lines indented past an item's marker belong to that item.
+ */
+const parseList = (lines: string[], start: number): { node: HtmlElement; next: number } => {
+    const first = lines[start].match(LIST_ITEM_REGEX)!;
+    const baseIndent = indentOf(first[1]);
+    const ordered = /\d/.test(first[2]);
+    const items: HtmlElement[] = [];
+
+    let next = start;
+    while (next < lines.length) {
+        const marker = lines[next].match(LIST_ITEM_REGEX);
+        if (!marker || indentOf(marker[1]) !== baseIndent || /\d/.test(marker[2]) !== ordered) break;
+
+        const contentIndent = baseIndent + marker[2].length + 1;
+        const content = [marker[3] ?? ''];
+        next++;
+
+        while (next < lines.length) {
+            const line = lines[next];
+            if (line.trim() === '') {
+                // A blank line only continues the item if indented content follows
+                const following = lines.slice(next + 1).find(candidate => candidate.trim() !== '');
+                if (following === undefined || indentOf(following) <= baseIndent) break;
+                content.push('');
+            } else if (indentOf(line) > baseIndent) {
+                content.push(outdent(line, contentIndent));
+            } else if (content[content.length - 1] !== '' && !startsBlock(line) && !LIST_ITEM_REGEX.test(line)) {
+                // Lazy continuation of the item's paragraph
+                content.push(line.trim());
+            } else {
+                break;
+            }
+            next++;
+        }
+
+        items.push(element('li', parseBlocks(content)));
+
+        // Blank lines may separate the items of one list
+        let lookahead = next;
+        while (lookahead < lines.length && lines[lookahead].trim() === '') lookahead++;
+        const following = lines[lookahead]?.match(LIST_ITEM_REGEX);
+        if (!following || indentOf(following[1]) !== baseIndent) break;
+        next = lookahead;
+    }
+
+    return { node: element(ordered ? 'ol' : 'ul', items), next };
+};
+
+/**
+ * Parse block-level Markdown
+ */
+const parseBlocks = (lines: string[]): HtmlNode[] => {
+    const nodes: HtmlNode[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE_REGEX);
+        if (fence) {
+            const code: string[] = [];
+            const indent = fence[1].length;
+            const closing = new RegExp(`^ {0,3}${fence[2][0] === '`' ? '`' : '~'}{${fence[2].length},}\\s*$`);
+            i++;
+            while (i < lines.length && !closing.test(lines[i])) {
+                code.push(outdent(lines[i], indent));
+                i++;
+            }
+            i++;
+            const attributes: Record<string, string> = fence[3] ? { class: `language-${fence[3]}` } : {};
+            nodes.push(element('pre', [element('code', [code.join('\n')], attributes)]));
+            continue;
+        }
+
+        const heading = line.match(HEADING_REGEX);
+        if (heading) {
+            nodes.push(element(`h${heading[1].length}`, parseInline(heading[2] ?? '')));
+            i++;
+            continue;
+        }
+
+        if (RULE_REGEX.test(line)) {
+            nodes.push(element('hr'));
+            i++;
+            continue;
+        }
+
+        if (QUOTE_REGEX.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && lines[i].trim() !== '') {
+                quoted.push(lines[i].replace(QUOTE_REGEX, ''));
+                i++;
+            }
+            nodes.push(element('blockquote', parseBlocks(quoted)));
+            continue;
+        }
+
+        if (LIST_ITEM_REGEX.test(line) && line.match(LIST_ITEM_REGEX)![3] !== undefined) {
+            const list = parseList(lines, i);
+            nodes.push(list.node);
+            i = list.next;
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length &&
+            lines[i + 1].includes('|') && TABLE_DELIMITER_REGEX.test(lines[i + 1])) {
+            const table = parseTable(lines, i);
+            nodes.push(table.node);
+            i = table.next;
+            continue;
+        }
+
+        const paragraph = [line.replace(/^[ \t]+/, '')];
+        i++;
+        while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines[i])) {
+            paragraph.push(lines[i].replace(/^[ \t]+/, ''));
+            i++;
+        }
+        nodes.push(element('p', parseInline(paragraph.join('\n').replace(/[ \t]+$/, ''))));
+    }
+
+    return nodes;
+};
+
+/**
+ * Parse Markdown into HTML nodes. Text that is a single paragraph comes back
+ * as inline content, so that it stays inside the host paragraph.
+ *
+ * @example
+ * parseMarkdown('**Total:** 42'); // [{ tag: 'strong', ... }, ' 42']
+ */
+export const parseMarkdown = (markdown: string): HtmlNode[] => {
+    const nodes = parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+
+    if (nodes.length === 1 && typeof nodes[0] !== 'string' && nodes[0].tag === 'p') {
+        return nodes[0].children;
+    }
+    return nodes;
+};
@@ -0,0 +1,107 @@
+/**
+ * Numbering (list) definitions in word/numbering.xml
+ */
+
+/**
+ * Path of the numbering part
+ */
+export const NUMBERING_PATH = 'word/numbering.xml';
+
+/**
+ * Content type of the numbering part
+ */
+export const NUMBERING_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml';
+
+/**
+ * Numbering part for templates that don't have one yet
+ */
+export const EMPTY_NUMBERING_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"></w:numbering>';
+
+const BULLETS = ['•', 'o', '▪'];
+const NUMBER_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'];
+
+/**
+ * Generate an abstract numbering definition with nine levels of bullets or numbers
+ */
+export const generateAbstractNum = (abstractNumId: number, ordered: boolean): string => {
+    const levels = Array.from({ length: 9 }, (_, level) => {
+        const format = ordered ? NUMBER_FORMATS[level % 3] : 'bullet';
+        const text = ordered ? `%${level + 1}.` : BULLETS[level % 3];
+        return `<w:lvl w:ilvl="${level}">` +
+            '<w:start w:val="1"/>' +
+            `<w:numFmt w:val="${format}"/>` +
+            `<w:lvlText w:val="${text}"/>` +
+            '<w:lvlJc w:val="left"/>' +
+            `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>` +
+            '</w:lvl>';
+    }).join('');
+
+    return `<w:abstractNum w:abstractNumId="${abstractNumId}">` +
+        '<w:multiLevelType w:val="hybridMultilevel"/>' +
+        `${levels}</w:abstractNum>`;
+};
+
+/**
+ * Generate a numbering instance. Numbered lists restart at 1.
+ */
+export const generateNum = (numId: number, abstractNumId: number, restart: boolean): string => {
+    const override = restart
+        ? '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride>'
+        : '';
+    return `<w:num w:numId="${numId}"><w:abstractNumId w:val="${abstractNumId}"/>${override}</w:num>`;
+};
+
+/**
+ * Get the next free ID for an abstract numbering definition or a numbering instance
+ */
+export const getNextNumberingId = (numberingXml: string, kind: 'abstractNum' | 'num'): number => {
+    const regex = kind === 'abstractNum'
+        ? /<w:abstractNum\s[^>]*w:abstractNumId="(\d+)"/g
+        : /<w:num\s[^>]*w:numId="(\d+)"/g;
+
+    let next = 1;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(numberingXml)) !== null) {
+        next = Math.max(next, Number(match[1]) + 1);
+    }
+    return next;
+};
+
+/**
+ * Find a template's abstract numbering definition for bullets or decimal numbers
+ * (judged by its first level), so that lists look like the template's own
+ */
+export const findAbstractNum = (numberingXml: string, ordered: boolean): number | null => {
+    const regex = /<w:abstractNum\s[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(numberingXml)) !== null) {
+        const firstLevel = match[2].match(/<w:lvl\s[^>]*w:ilvl="0"[^>]*>([\s\S]*?)<\/w:lvl>/);
+        const format = firstLevel?.[1].match(/<w:numFmt\s+w:val="([^"]*)"/)?.[1];
+        if (format === (ordered ? 'decimal' : 'bullet')) {
+            return Number(match[1]);
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Add an abstract numbering definition. The schema requires all of them
+ * before the first numbering instance.
+ */
+export const addAbstractNum = (numberingXml: string, abstractNumXml: string): string => {
+    const index = numberingXml.search(/<w:num[\s>]|<w:numIdMacAtCleanup|<\/w:numbering>/);
+    if (index === -1) return numberingXml;
+    return numberingXml.slice(0, index) + abstractNumXml + numberingXml.slice(index);
+};
+
+/**
+ * Add a numbering instance after the existing ones
+ */
+export const addNum = (numberingXml: string, numXml: string): string => {
+    const index = numberingXml.search(/<w:numIdMacAtCleanup|<\/w:numbering>/);
+    if (index === -1) return numberingXml;
+    return numberingXml.slice(0, index) + numXml + numberingXml.slice(index);
+};
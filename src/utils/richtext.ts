@@ -0,0 +1,169 @@
+/**
+ * Rich text rendering: runs with their own formatting placed where a
+ * placeholder was, inheriting everything else from the template run
+ */
+
+import { RichText, TextRun } from '../types';
+import { findElementEnd } from './xml';
+import { escapeForXml, wrapWithPreserveSpace } from './string';
+import { RunContext } from './runs';
+
+/**
+ * Formatting of a text run, without its text
+ */
+export type RunFormatting = Omit<TextRun, 'text'> & {
+    /** ID of a character style from the template */
+    styleId?: string;
+};
+
+/**
+ * Order of <w:rPr> children required by the WordprocessingML schema
+ */
+const RUN_PROPERTY_ORDER = [
+    'rStyle', 'rFonts', 'b', 'bCs', 'i', 'iCs', 'caps', 'smallCaps', 'strike', 'dstrike',
+    'outline', 'shadow', 'emboss', 'imprint', 'noProof', 'snapToGrid', 'vanish', 'webHidden',
+    'color', 'spacing', 'w', 'kern', 'position', 'sz', 'szCs', 'highlight', 'u', 'effect',
+    'bdr', 'shd', 'fitText', 'vertAlign', 'rtl', 'cs', 'em', 'lang', 'eastAsianLayout',
+    'specVanish', 'oMath'
+];
+
+/**
+ * Split a <w:rPr> element into its child elements, keyed by local name
+ */
+const parseRunProperties = (runProperties: string): Map<string, string> => {
+    const children = new Map<string, string>();
+    const match = runProperties.match(/^<w:rPr\b[^>]*>([\s\S]*)<\/w:rPr>$/);
+    if (!match) return children;
+
+    const inner = match[1];
+    let index = 0;
+    while ((index = inner.indexOf('<', index)) !== -1) {
+        const end = findElementEnd(inner, index);
+        const element = inner.slice(index, end);
+        const name = element.match(/^<w:([\w]+)/)?.[1];
+        if (name) children.set(name, element);
+        index = end;
+    }
+
+    return children;
+};
+
+/**
+ * Build an on/off property such as <w:b/> or <w:b w:val="0"/>
+ */
+const toggle = (name: string, on: boolean): string => {
+    return on ? `<w:${name}/>` : `<w:${name} w:val="0"/>`;
+};
+
+/**
+ * Apply formatting on top of a template run's <w:rPr>.
+ * Properties not set in the formatting keep their inherited value.
+ */
+export const buildRunProperties = (runProperties: string, formatting: RunFormatting): string => {
+    const children = parseRunProperties(runProperties);
+    const attr = (value: string | number): string => escapeForXml(String(value));
+
+    if (formatting.styleId !== undefined) {
+        children.set('rStyle', `<w:rStyle w:val="${attr(formatting.styleId)}"/>`);
+    }
+    if (formatting.font !== undefined) {
+        const font = attr(formatting.font);
+        children.set('rFonts', `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>`);
+    }
+    if (formatting.bold !== undefined) {
+        children.set('b', toggle('b', formatting.bold));
+        children.set('bCs', toggle('bCs', formatting.bold));
+    }
+    if (formatting.italic !== undefined) {
+        children.set('i', toggle('i', formatting.italic));
+        children.set('iCs', toggle('iCs', formatting.italic));
+    }
+    if (formatting.strike !== undefined) {
+        children.set('strike', toggle('strike', formatting.strike));
+    }
+    if (formatting.color !== undefined) {
+        children.set('color', `<w:color w:val="${attr(formatting.color.replace(/^#/, ''))}"/>`);
+    }
+    if (formatting.size !== undefined) {
+        children.set('sz', `<w:sz w:val="${attr(formatting.size)}"/>`);
+        children.set('szCs', `<w:szCs w:val="${attr(formatting.size)}"/>`);
+    }
+    if (formatting.highlight !== undefined) {
+        children.set('highlight', `<w:highlight w:val="${attr(formatting.highlight)}"/>`);
+    }
+    if (formatting.underline !== undefined) {
+        const style = formatting.underline === true ? 'single' : formatting.underline || 'none';
+        children.set('u', `<w:u w:val="${attr(style)}"/>`);
+    }
+    if (formatting.superscript) {
+        children.set('vertAlign', '<w:vertAlign w:val="superscript"/>');
+    } else if (formatting.subscript) {
+        children.set('vertAlign', '<w:vertAlign w:val="subscript"/>');
+    } else if (formatting.superscript === false || formatting.subscript === false) {
+        children.delete('vertAlign');
+    }
+
+    if (children.size === 0) return '';
+
+    // Unknown children (e.g. w:rPrChange) keep their order after the known ones
+    const rank = (name: string): number => {
+        const index = RUN_PROPERTY_ORDER.indexOf(name);
+        return index === -1 ? RUN_PROPERTY_ORDER.length : index;
+    };
+    const sorted = [...children.entries()].sort((a, b) => rank(a[0]) - rank(b[0]));
+
+    return `<w:rPr>${sorted.map(([, element]) => element).join('')}</w:rPr>`;
+};
+
+/**
+ * Check whether text needs run-level rendering: line breaks, tabs,
+ * or leading and trailing spaces that a plain <w:t> would drop
+ */
+export const needsRunRendering = (text: string): boolean => {
+    return /[\r\n\t]|^\s|\s$/.test(text);
+};
+
+/**
+ * Build run content for one paragraph of text: newlines become <w:br/>, tabs <w:tab/>
+ */
+const textContent = (text: string): string => {
+    return text.split(/(\n|\t)/).map(part => {
+        if (part === '\n') return '<w:br/>';
+        if (part === '\t') return '<w:tab/>';
+        if (part === '') return '';
+        return /^\s|\s$/.test(part) ? wrapWithPreserveSpace(part) : `<w:t>${escapeForXml(part)}</w:t>`;
+    }).join('');
+};
+
+/**
+ * Copy a paragraph's <w:pPr> for a new paragraph.
+ * A section break stays with the original paragraph only.
+ */
+export const cloneParagraphProperties = (paragraphProperties: string): string => {
+    return paragraphProperties.replace(/<w:sectPr\b[^>]*\/>|<w:sectPr\b[\s\S]*?<\/w:sectPr>/g, '');
+};
+
+/**
+ * Close the host paragraph and open a new one with the same properties.
+ * A run inside a hyperlink or content control can't close its paragraph,
+ * so there the blank line is kept as two line breaks.
+ */
+const paragraphBreak = (context: RunContext, runProperties: string): string => {
+    if (context.wrapped) return `<w:r>${runProperties}<w:br/><w:br/></w:r>`;
+    return `</w:p><w:p>${cloneParagraphProperties(context.paragraphProperties)}`;
+};
+
+/**
+ * Render rich text as runs that inherit the template run's formatting.
+ * Blank lines start a new paragraph, single newlines become line breaks.
+ */
+export const renderRichText = (runs: RichText | (RunFormatting & { text: string })[], context: RunContext): string => {
+    return runs.map(({ text, ...formatting }) => {
+        const runProperties = buildRunProperties(context.runProperties, formatting);
+        return text
+            .replace(/\r\n?/g, '\n')
+            .split(/\n[ \t]*\n/)
+            .map(paragraph => paragraph === '' ? '' : `<w:r>${runProperties}${textContent(paragraph)}</w:r>`)
+            .join(paragraphBreak(context, runProperties));
+    }).join('');
+};
@@ -0,0 +1,397 @@
+/**
+ * Run-level processing of WordprocessingML paragraphs
+ *
+ * Word often splits a placeholder such as {{customerName}} over several
+ * <w:r> runs (spell-check markers, revision IDs, formatting changes). These
+ * helpers merge such placeholders back into the run where they start and
+ * replace them while keeping that run's formatting.
+ */
+
+import { Delimiters } from '../types';
+import { findElementEnd, getAncestors, XmlElementRange } from './xml';
+import { DEFAULT_DELIMITERS, getPlaceholderPattern } from './string';
+
+/**
+ * Formatting context of the run holding a placeholder
+ */
+export interface RunContext {
+    /** The host run's <w:rPr> element, or an empty string */
+    runProperties: string;
+    /** The host paragraph's <w:pPr> element, or an empty string */
+    paragraphProperties: string;
+    /**
+     * Whether the host run is inside a hyperlink, content control or other element
+     * in its paragraph, where the paragraph can't be split
+     */
+    wrapped?: boolean;
+}
+
+/**
+ * Renders XML for a placeholder from the formatting around it
+ */
+export type RunRenderer = (context: RunContext) => string;
+
+/**
+ * A <w:t> text node
+ */
+interface TextNode {
+    /** Index of the opening <w:t> tag */
+    start: number;
+    /** Index just after </w:t> */
+    end: number;
+    /** Attributes of the opening tag */
+    attributes: string;
+    /** Raw (XML-escaped) text */
+    text: string;
+    /** Enclosing run */
+    run?: XmlElementRange;
+}
+
+/**
+ * A placeholder found inside a text node
+ */
+interface TextMatch {
+    node: TextNode;
+    /** Offset of the placeholder within the node text */
+    offset: number;
+    /** Length of the placeholder text */
+    length: number;
+}
+
+const TOKEN_REGEX = /<(\/?)([A-Za-z_][\w.:-]*)([^>]*?)(\/?)>/g;
+
+/**
+ * Build a <w:t> element, preserving leading and trailing spaces
+ */
+export const textElement = (text: string, attributes: string = ''): string => {
+    if (text === '') return '';
+
+    const needsPreserve = /^\s|\s$/.test(text) && !/xml:space=/.test(attributes);
+    const attrs = needsPreserve ? `${attributes} xml:space="preserve"` : attributes;
+    return `<w:t${attrs}>${text}</w:t>`;
+};
+
+/**
+ * Text nodes of one paragraph
+ */
+interface ParagraphNodes {
+    /** Zero-based position of the paragraph in the part */
+    index: number;
+    /** Whether the paragraph is inside a table */
+    inTable: boolean;
+    nodes: TextNode[];
+}
+
+/**
+ * Text of a paragraph, read across all of its runs
+ */
+export interface ParagraphText {
+    /** Zero-based position of the paragraph in the part */
+    index: number;
+    /** Whether the paragraph is inside a table */
+    inTable: boolean;
+    /** Raw (XML-escaped) text of all <w:t> nodes joined together */
+    text: string;
+    /** Offset in `text` where each <w:t> node starts */
+    nodeOffsets: number[];
+}
+
+/**
+ * Collect text nodes grouped by paragraph, with the run each node belongs to
+ */
+const collectParagraphTextNodes = (xml: string): ParagraphNodes[] => {
+    const regex = new RegExp(TOKEN_REGEX.source, 'g');
+    const paragraphs: ParagraphNodes[] = [];
+    const paragraphStack: ParagraphNodes[] = [];
+    const runStack: { start: number; nodes: TextNode[] }[] = [];
+    let openText: { start: number; contentStart: number; attributes: string } | null = null;
+    let paragraphCount = 0;
+    let tableDepth = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(xml)) !== null) {
+        const [tag, closing, name, attributes, selfClosing] = match;
+        if (selfClosing) continue;
+
+        if (!closing) {
+            if (name === 'w:p') {
+                paragraphStack.push({ index: paragraphCount++, inTable: tableDepth > 0, nodes: [] });
+            } else if (name === 'w:tbl') {
+                tableDepth++;
+            } else if (name === 'w:r') {
+                runStack.push({ start: match.index, nodes: [] });
+            } else if (name === 'w:t') {
+                openText = { start: match.index, contentStart: match.index + tag.length, attributes };
+            }
+            continue;
+        }
+
+        if (name === 'w:t' && openText) {
+            const node: TextNode = {
+                start: openText.start,
+                end: match.index + tag.length,
+                attributes: openText.attributes,
+                text: xml.slice(openText.contentStart, match.index)
+            };
+            paragraphStack[paragraphStack.length - 1]?.nodes.push(node);
+            runStack[runStack.length - 1]?.nodes.push(node);
+            openText = null;
+        } else if (name === 'w:r') {
+            const run = runStack.pop();
+            if (run) {
+                const range = { name, start: run.start, end: match.index + tag.length };
+                run.nodes.forEach(node => { node.run = range; });
+            }
+        } else if (name === 'w:tbl') {
+            tableDepth--;
+        } else if (name === 'w:p') {
+            const paragraph = paragraphStack.pop();
+            if (paragraph && paragraph.nodes.length > 0) {
+                paragraphs.push(paragraph);
+            }
+        }
+    }
+
+    return paragraphs.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Get the text of every paragraph in a part, read across runs
+ */
+export const getParagraphTexts = (xml: string): ParagraphText[] => {
+    return collectParagraphTextNodes(xml).map(paragraph => {
+        const nodeOffsets: number[] = [];
+        let text = '';
+        for (const node of paragraph.nodes) {
+            nodeOffsets.push(text.length);
+            text += node.text;
+        }
+        return { index: paragraph.index, inTable: paragraph.inTable, text, nodeOffsets };
+    });
+};
+
+/**
+ * Check whether a run holds nothing besides its properties and the given text node
+ */
+const isRunOnlyText = (xml: string, run: XmlElementRange, node: TextNode): boolean => {
+    const remaining = xml.slice(run.start, node.start) + xml.slice(node.end, run.end);
+    return remaining
+        .replace(/^<w:r(?:\s[^>]*)?>/, '')
+        .replace(/<\/w:r>$/, '')
+        .replace(/<w:rPr\/>|<w:rPr>[\s\S]*<\/w:rPr>/, '')
+        .trim() === '';
+};
+
+/**
+ * Merge placeholders that are split across runs into the run where they start.
+ *
+ * Text of each paragraph is read across all of its <w:t> nodes, so elements
+ * between the pieces (proofErr, bookmarks, run properties) do not matter.
+ * Runs left without text are removed.
+ */
+export const normalizeRuns = (xml: string, delimiters: Delimiters = DEFAULT_DELIMITERS): string => {
+    const edits: { start: number; end: number; replacement: string }[] = [];
+
+    for (const { nodes } of collectParagraphTextNodes(xml)) {
+        // Map every character of the paragraph text to the node it belongs to
+        const owners: number[] = [];
+        let text = '';
+        nodes.forEach((node, index) => {
+            text += node.text;
+            for (let i = 0; i < node.text.length; i++) owners.push(index);
+        });
+
+        let changed = false;
+        const regex = new RegExp(getPlaceholderPattern(delimiters), 'g');
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(text)) !== null) {
+            const first = owners[match.index];
+            for (let i = match.index; i < match.index + match[0].length; i++) {
+                if (owners[i] !== first) {
+                    owners[i] = first;
+                    changed = true;
+                }
+            }
+        }
+        if (!changed) continue;
+
+        const texts = nodes.map(() => '');
+        for (let i = 0; i < text.length; i++) {
+            texts[owners[i]] += text[i];
+        }
+
+        nodes.forEach((node, index) => {
+            if (texts[index] === node.text) return;
+
+            if (texts[index] === '' && node.run && isRunOnlyText(xml, node.run, node)) {
+                edits.push({ start: node.run.start, end: node.run.end, replacement: '' });
+            } else {
+                const attributes = node.attributes.replace(/\s*xml:space="[^"]*"/, '');
+                edits.push({ start: node.start, end: node.end, replacement: textElement(texts[index], attributes) });
+            }
+        });
+    }
+
+    let result = xml;
+    edits.sort((a, b) => b.start - a.start);
+    for (const edit of edits) {
+        result = result.slice(0, edit.start) + edit.replacement + result.slice(edit.end);
+    }
+
+    return result;
+};
+
+/**
+ * Find the next text node holding a placeholder, either as {{name}} anywhere
+ * in the text or as the node's entire text
+ */
+const findPlaceholderNode = (
+    xml: string,
+    name: string,
+    fromIndex: number,
+    delimiters: Delimiters
+): TextMatch | null => {
+    const regex = /<w:t(\s[^>]*)?>([^<]*)<\/w:t>/g;
+    regex.lastIndex = fromIndex;
+    const tag = `${delimiters[0]}${name}${delimiters[1]}`;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(xml)) !== null) {
+        const text = match[2];
+        const node: TextNode = {
+            start: match.index,
+            end: match.index + match[0].length,
+            attributes: match[1] || '',
+            text
+        };
+
+        const offset = text.indexOf(tag);
+        if (offset !== -1) {
+            return { node, offset, length: tag.length };
+        }
+        if (text.trim() === name) {
+            return { node, offset: text.indexOf(name), length: name.length };
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Get a child element at the start of an element's content (e.g. <w:rPr> in a run)
+ */
+const getLeadingChild = (xml: string, element: XmlElementRange, childName: string): string => {
+    const openTagEnd = xml.indexOf('>', element.start) + 1;
+    const rest = xml.slice(openTagEnd, element.end);
+    const offset = rest.search(/\S/);
+    if (offset === -1 || !rest.startsWith(`<${childName}`, offset)) {
+        return '';
+    }
+    if (!/^[\s/>]/.test(rest.charAt(offset + childName.length + 1))) {
+        return '';
+    }
+
+    const childStart = openTagEnd + offset;
+    return xml.slice(childStart, findElementEnd(xml, childStart));
+};
+
+/**
+ * Replace a placeholder inside runs with run-level XML.
+ *
+ * The host run is split around the placeholder: text before and after it
+ * stays in copies of the run with the original formatting, and the renderer
+ * receives that formatting to build the replacement runs.
+ */
+export const replaceInRuns = (
+    xml: string,
+    name: string,
+    render: RunRenderer,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): string => {
+    let result = xml;
+    let index = 0;
+
+    let match: TextMatch | null;
+    while ((match = findPlaceholderNode(result, name, index, delimiters)) !== null) {
+        const { node, offset, length } = match;
+        const ancestors = getAncestors(result, node.start);
+        const run = [...ancestors].reverse().find(element => element.name === 'w:r');
+        if (!run) {
+            index = node.end;
+            continue;
+        }
+
+        const paragraph = [...ancestors].reverse().find(element => element.name === 'w:p');
+        const runProperties = getLeadingChild(result, run, 'w:rPr');
+        const context: RunContext = {
+            runProperties,
+            paragraphProperties: paragraph ? getLeadingChild(result, paragraph, 'w:pPr') : '',
+            wrapped: !!paragraph && ancestors[ancestors.indexOf(run) - 1] !== paragraph
+        };
+
+        const openTag = result.slice(run.start, result.indexOf('>', run.start) + 1);
+        const propertiesEnd = runProperties
+            ? result.indexOf(runProperties, run.start) + runProperties.length
+            : run.start + openTag.length;
+        const contentEnd = run.end - '</w:r>'.length;
+
+        const buildRun = (content: string): string =>
+            content.trim() === '' ? '' : `${openTag}${runProperties}${content}</w:r>`;
+
+        const attributes = node.attributes.replace(/\s*xml:space="[^"]*"/, '');
+        const before = buildRun(
+            result.slice(propertiesEnd, node.start) + textElement(node.text.slice(0, offset), attributes)
+        );
+        const after = buildRun(
+            textElement(node.text.slice(offset + length), attributes) + result.slice(node.end, contentEnd)
+        );
+        const rendered = render(context);
+
+        result = result.slice(0, run.start) + before + rendered + after + result.slice(run.end);
+        index = run.start + before.length + rendered.length;
+    }
+
+    return result;
+};
+
+/**
+ * Replace the paragraph holding a placeholder with block-level XML (e.g. a table),
+ * or with the output of a renderer that receives the paragraph's formatting.
+ * A table cell keeps an empty paragraph after the block, as every cell must end with one.
+ */
+export const replaceParagraph = (
+    xml: string,
+    name: string,
+    block: string | RunRenderer,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): string => {
+    let result = xml;
+    let index = 0;
+
+    let match: TextMatch | null;
+    while ((match = findPlaceholderNode(result, name, index, delimiters)) !== null) {
+        const ancestors = getAncestors(result, match.node.start);
+        const paragraphIndex = ancestors.map(element => element.name).lastIndexOf('w:p');
+        if (paragraphIndex === -1) {
+            index = match.node.end;
+            continue;
+        }
+
+        const paragraph = ancestors[paragraphIndex];
+        const parent = ancestors[paragraphIndex - 1];
+        const run = [...ancestors].reverse().find(element => element.name === 'w:r');
+        const blockXml = typeof block === 'string' ? block : block({
+            runProperties: run ? getLeadingChild(result, run, 'w:rPr') : '',
+            paragraphProperties: getLeadingChild(result, paragraph, 'w:pPr')
+        });
+        const isLastInCell = parent?.name === 'w:tc' &&
+            /^\s*<\/w:tc>/.test(result.slice(paragraph.end)) &&
+            !/<\/w:p>\s*$/.test(blockXml);
+        const replacement = isLastInCell ? `${blockXml}<w:p/>` : blockXml;
+
+        result = result.slice(0, paragraph.start) + replacement + result.slice(paragraph.end);
+        index = paragraph.start + replacement.length;
+    }
+
+    return result;
+};
@@ -0,0 +1,35 @@
+/**
+ * Section properties (w:sectPr): page size and margins
+ */
+
+/**
+ * Text width of a Letter page with 1 inch margins, for documents without section properties
+ */
+export const DEFAULT_TEXT_WIDTH = 9360;
+
+/**
+ * Read a numeric attribute of an element, in twips
+ */
+const readTwips = (xml: string, element: string, attribute: string): number | undefined => {
+    const tag = xml.match(new RegExp(`<w:${element}\\s[^>]*>`))?.[0];
+    const value = tag?.match(new RegExp(`\\sw:${attribute}="(-?\\d+)"`))?.[1];
+    return value === undefined ? undefined : Number(value);
+};
+
+/**
+ * Get the width left for text in the section holding a position: the page
+ * width minus the left and right margins and the gutter, in twips. A section
+ * ends with the first w:sectPr after its content.
+ */
+export const getTextWidth = (xml: string, position: number = 0): number => {
+    const regex = /<w:sectPr[\s>][\s\S]*?<\/w:sectPr>/g;
+    regex.lastIndex = Math.max(position, 0);
+    const sectPr = regex.exec(xml)?.[0];
+
+    const pageWidth = sectPr && readTwips(sectPr, 'pgSz', 'w');
+    if (!sectPr || !pageWidth) return DEFAULT_TEXT_WIDTH;
+
+    const margins = ['left', 'right', 'gutter']
+        .reduce((sum, attribute) => sum + (readTwips(sectPr, 'pgMar', attribute) ?? 0), 0);
+    return Math.max(pageWidth - margins, 0) || DEFAULT_TEXT_WIDTH;
+};
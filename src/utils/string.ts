@@ -2,6 +2,17 @@
  * String manipulation utilities for DOCX template processing
  */
 
+import { Delimiters } from '../types';
+
+/**
+ * Default placeholder delimiters
+ */
+export const DEFAULT_DELIMITERS: Delimiters = ['{{', '}}'];
+
+// Stand-ins for escaped delimiters while a template is processed (Unicode private use area)
+const ESCAPED_OPEN = '\uE000';
+const ESCAPED_CLOSE = '\uE001';
+
 /**
  * Escape special characters for use in regular expressions
  */
@@ -19,14 +30,57 @@ export const replaceAll = (str: string, search: string, replacement: string): st
     return str.replace(new RegExp(escapeRegExp(search), 'g'), replacement);
 };
 
+/**
+ * Build the regex source matching a placeholder between delimiters.
+ * The first capture group holds the text between the delimiters.
+ */
+export const getPlaceholderPattern = (delimiters: Delimiters = DEFAULT_DELIMITERS): string => {
+    const open = escapeRegExp(delimiters[0]);
+    const close = escapeRegExp(delimiters[1]);
+    return `${open}((?:(?!${open})[^<])*?)${close}`;
+};
+
+/**
+ * Validate a pair of placeholder delimiters
+ */
+export const validateDelimiters = (delimiters: Delimiters): void => {
+    const valid = Array.isArray(delimiters) &&
+        delimiters.length === 2 &&
+        delimiters.every(d => typeof d === 'string' && d.length > 0 && !/[<>\s\\]/.test(d));
+
+    if (!valid) {
+        throw new Error('Delimiters must be two non-empty strings without whitespace, "<", ">" or "\\"');
+    }
+};
+
+/**
+ * Hide escaped delimiters (e.g. \{{ and \}}) so they are not treated as placeholders
+ */
+export const maskEscapedDelimiters = (content: string, delimiters: Delimiters = DEFAULT_DELIMITERS): string => {
+    let result = replaceAll(content, `\\${delimiters[0]}`, ESCAPED_OPEN);
+    result = replaceAll(result, `\\${delimiters[1]}`, ESCAPED_CLOSE);
+    return result;
+};
+
+/**
+ * Turn escaped delimiters hidden by maskEscapedDelimiters back into literal delimiters
+ */
+export const unmaskEscapedDelimiters = (content: string, delimiters: Delimiters = DEFAULT_DELIMITERS): string => {
+    let result = replaceAll(content, ESCAPED_OPEN, delimiters[0]);
+    result = replaceAll(result, ESCAPED_CLOSE, delimiters[1]);
+    return result;
+};
+
 /**
  * Replace placeholder with value, handling XML-safe escaping
- * Supports both {{placeholder}} and <w:t>placeholder</w:t> formats
+ * Supports both {{placeholder}} and <w:t>placeholder</w:t> formats.
+ * Placeholders split across runs must be merged first (see normalizeRuns).
  */
 export const replacePlaceholder = (
     content: string,
     placeholder: string,
-    value: string
+    value: string,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
 ): string => {
     let result = content;
 
@@ -34,20 +88,25 @@ export const replacePlaceholder = (
     const safeValue = escapeForXml(value);
 
     // Replace {{placeholder}} format
-    result = replaceAll(result, `{{${placeholder}}}`, safeValue);
+    result = replaceAll(result, `${delimiters[0]}${placeholder}${delimiters[1]}`, safeValue);
 
     // Replace <w:t>placeholder</w:t> format (Word XML)
     result = replaceAll(result, `<w:t>${placeholder}</w:t>`, `<w:t>${safeValue}</w:t>`);
 
-    // Replace when placeholder is split across XML tags (common in Word)
-    // Pattern: <w:t>place</w:t></w:r><w:r><w:t>holder</w:t>
-    const placeholderPattern = placeholder.split('').join('[^a-zA-Z]*');
-    const regex = new RegExp(`<w:t[^>]*>\\s*${placeholderPattern}\\s*</w:t>`, 'gi');
-    result = result.replace(regex, `<w:t>${safeValue}</w:t>`);
-
     return result;
 };
 
+/**
+ * Get the bare placeholder name from a configured placeholder ("{{logo}}" -> "logo")
+ */
+export const getPlaceholderName = (placeholder: string, delimiters: Delimiters = DEFAULT_DELIMITERS): string => {
+    let name = placeholder.trim();
+    if (name.startsWith(delimiters[0]) && name.endsWith(delimiters[1])) {
+        name = name.slice(delimiters[0].length, name.length - delimiters[1].length);
+    }
+    return name.trim();
+};
+
 /**
  * Escape special characters for XML content
  */
@@ -123,24 +182,29 @@ export const generateImageId = (): string => {
 /**
  * Check if a string contains any of the given placeholders
  */
-export const containsPlaceholder = (content: string, placeholders: string[]): boolean => {
+export const containsPlaceholder = (
+    content: string,
+    placeholders: string[],
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): boolean => {
     return placeholders.some(p =>
-        content.includes(`{{${p}}}`) || content.includes(`<w:t>${p}</w:t>`)
+        content.includes(`${delimiters[0]}${p}${delimiters[1]}`) || content.includes(`<w:t>${p}</w:t>`)
     );
 };
 
 /**
  * Extract all placeholders from content (both {{}} and raw formats)
  */
-export const extractPlaceholders = (content: string): string[] => {
+export const extractPlaceholders = (content: string, delimiters: Delimiters = DEFAULT_DELIMITERS): string[] => {
     const placeholders: Set<string> = new Set();
 
     // Match {{placeholder}} format
-    const bracketMatches = content.match(/\{\{([^}]+)\}\}/g);
-    if (bracketMatches) {
-        bracketMatches.forEach(match => {
-            placeholders.add(match.slice(2, -2));
-        });
+    const regex = new RegExp(getPlaceholderPattern(delimiters), 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+        if (match[1].trim() !== '') {
+            placeholders.add(match[1]);
+        }
     }
 
     return Array.from(placeholders);
@@ -0,0 +1,39 @@
+/**
+ * Style lookups in word/styles.xml
+ */
+
+/**
+ * Path of the styles part
+ */
+export const STYLES_PATH = 'word/styles.xml';
+
+/**
+ * Kind of style: for paragraphs, runs of text or tables
+ */
+export type StyleType = 'paragraph' | 'character' | 'table';
+
+/**
+ * Map the names of a template's styles of one type to their IDs.
+ * Names are lower-cased, as Word stores built-in names such as "heading 1"
+ * in lower case while the IDs depend on the language (e.g. "berschrift1").
+ */
+export const getStyleIds = (
+    stylesXml: string,
+    type: StyleType = 'paragraph'
+): Map<string, string> => {
+    const styles = new Map<string, string>();
+    const regex = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(stylesXml)) !== null) {
+        const styleType = match[1].match(/\sw:type="([^"]*)"/)?.[1];
+        const styleId = match[1].match(/\sw:styleId="([^"]*)"/)?.[1];
+        const name = match[2].match(/<w:name\s+w:val="([^"]*)"/)?.[1];
+
+        if (styleType === type && styleId && name && !styles.has(name.toLowerCase())) {
+            styles.set(name.toLowerCase(), styleId);
+        }
+    }
+
+    return styles;
+};
@@ -0,0 +1,246 @@
+/**
+ * Table utilities: cell spans, grouping, aggregates and column widths in generated
+ * tables, and locating the prototype row of a table designed in the template
+ */
+
+import { AggregateName, CellImage, CellParagraphs, CellTable, CellValue, Delimiters, TableCell } from '../types';
+import { findElementEnd } from './xml';
+import { DEFAULT_DELIMITERS, escapeRegExp, extractPlaceholders } from './string';
+import { isPlainObject } from './data';
+
+/**
+ * A cell placed on the table grid
+ */
+export interface GridCell<T> {
+    /** The cell given for this position, undefined for merged and missing cells */
+    cell?: T;
+    /** Index of the first grid column the cell covers */
+    column: number;
+    /** Number of grid columns the cell covers */
+    colSpan: number;
+    /** Start ('restart') or continuation ('continue') of a vertically merged cell */
+    vMerge?: 'restart' | 'continue';
+}
+
+/**
+ * Cells of one row to place on the grid
+ */
+export interface RowCells<T> {
+    /** The cells, in order or indexed by column */
+    cells: T[];
+    /** Whether cells are indexed by column (record rows) rather than taken in order */
+    byColumn: boolean;
+}
+
+const TABLE_CELL_KEYS = ['value', 'colSpan', 'rowSpan', 'style'];
+
+/**
+ * Check whether a value is a table cell with spans or a style ({ value, colSpan, rowSpan, style })
+ */
+export const isTableCell = (value: CellValue | TableCell | undefined): value is TableCell => {
+    return isPlainObject(value) &&
+        'value' in value &&
+        Object.keys(value).every(key => TABLE_CELL_KEYS.includes(key));
+};
+
+/**
+ * Check whether a value is an object with the given key and no other
+ */
+const hasOnlyKey = (value: unknown, key: string): value is Record<string, unknown> => {
+    return isPlainObject(value) && key in value && Object.keys(value).length === 1;
+};
+
+/**
+ * Check whether a cell value is an image ({ image: { path, url or buffer } })
+ */
+export const isCellImage = (value: unknown): value is CellImage => {
+    return hasOnlyKey(value, 'image') && isPlainObject(value.image);
+};
+
+/**
+ * Check whether a cell value is a list of paragraphs ({ paragraphs: [...] })
+ */
+export const isCellParagraphs = (value: unknown): value is CellParagraphs => {
+    return hasOnlyKey(value, 'paragraphs') && Array.isArray(value.paragraphs);
+};
+
+/**
+ * Check whether a cell value is a nested table ({ table: { headers, rows } })
+ */
+export const isCellTable = (value: unknown): value is CellTable => {
+    return hasOnlyKey(value, 'table') && isPlainObject(value.table) && Array.isArray(value.table.rows);
+};
+
+/**
+ * Place rows of cells on a grid of columns. A cell spanning rows covers the
+ * same columns in the rows below, which get continuation cells there.
+ * Rows that run short are filled with empty cells.
+ */
+export const layoutRows = <T>(
+    rows: RowCells<T>[],
+    columnCount: number,
+    spanOf: (cell: T) => { colSpan?: number; rowSpan?: number }
+): GridCell<T>[][] => {
+    const covered: { rows: number; colSpan: number }[] = [];
+
+    return rows.map(row => {
+        const cells: GridCell<T>[] = [];
+        let column = 0;
+        let index = 0;
+
+        while (column < columnCount) {
+            const cover = covered[column];
+            if (cover && cover.rows > 0) {
+                cells.push({ column, colSpan: cover.colSpan, vMerge: 'continue' });
+                cover.rows--;
+                column += cover.colSpan;
+                continue;
+            }
+
+            const cell = row.byColumn ? row.cells[column] : row.cells[index++];
+            if (cell === undefined) {
+                cells.push({ column, colSpan: 1 });
+                column++;
+                continue;
+            }
+
+            const span = spanOf(cell);
+            const colSpan = Math.min(Math.max(1, Math.floor(span.colSpan ?? 1)), columnCount - column);
+            const rowSpan = Math.max(1, Math.floor(span.rowSpan ?? 1));
+            cells.push({ cell, column, colSpan, ...(rowSpan > 1 ? { vMerge: 'restart' as const } : {}) });
+            if (rowSpan > 1) covered[column] = { rows: rowSpan - 1, colSpan };
+            column += colSpan;
+        }
+
+        return cells;
+    });
+};
+
+/**
+ * Group items by a key, keeping the groups and their items in order of first appearance
+ */
+export const groupRows = <T>(items: T[], keyOf: (item: T) => CellValue | undefined): [CellValue | undefined, T[]][] => {
+    const groups = new Map<string, [CellValue | undefined, T[]]>();
+
+    for (const item of items) {
+        const key = keyOf(item);
+        // Group dates and other objects by content rather than identity
+        const id = key instanceof Date ? key.toISOString() : JSON.stringify(key) ?? '';
+        const group = groups.get(id);
+        if (group) group[1].push(item);
+        else groups.set(id, [key, [item]]);
+    }
+
+    return [...groups.values()];
+};
+
+/**
+ * Compute a built-in aggregate over cell values. sum, avg, min and max use
+ * numbers and numeric strings; count counts the values that aren't empty.
+ */
+export const aggregate = (name: AggregateName, values: (CellValue | undefined)[]): number | undefined => {
+    const present = values.filter(value => value !== undefined && value !== null && value !== '');
+    if (name === 'count') return present.length;
+
+    const numbers = present
+        .map(value => typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN)
+        .filter(Number.isFinite);
+    const sum = numbers.reduce((total, n) => total + n, 0);
+
+    switch (name) {
+        case 'sum': return sum;
+        case 'avg': return numbers.length ? sum / numbers.length : undefined;
+        case 'min': return numbers.length ? Math.min(...numbers) : undefined;
+        case 'max': return numbers.length ? Math.max(...numbers) : undefined;
+    }
+};
+
+/**
+ * Narrowest width given to a column sized by its content, in twips
+ */
+const MIN_COLUMN_WIDTH = 400;
+
+/**
+ * Size the columns without a width in proportion to their content length,
+ * sharing the width that the other columns leave. Columns whose share falls
+ * below the minimum take the minimum out of the width before the rest is shared,
+ * so the total only exceeds the available width when the fixed columns leave too little.
+ */
+export const fitColumnWidths = (
+    widths: (number | undefined)[],
+    lengths: number[],
+    available: number
+): number[] => {
+    const fixed = widths.reduce<number>((sum, width) => sum + (width ?? 0), 0);
+    const weight = (index: number) => Math.max(lengths[index], 1);
+    const shared = widths.map((width, index) => index).filter(index => widths[index] === undefined);
+    let free = Math.max(available - fixed, 0);
+    let total = shared.reduce((sum, index) => sum + weight(index), 0);
+
+    // Clamping a column leaves less for the rest, so walk up from the shortest content
+    const narrow = new Set<number>();
+    for (const index of [...shared].sort((a, b) => weight(a) - weight(b))) {
+        if (Math.floor(free * weight(index) / total) >= MIN_COLUMN_WIDTH) break;
+        narrow.add(index);
+        free = Math.max(free - MIN_COLUMN_WIDTH, 0);
+        total -= weight(index);
+    }
+
+    return widths.map((width, index) => width ??
+        (narrow.has(index) ? MIN_COLUMN_WIDTH : Math.floor(free * weight(index) / total)));
+};
+
+/**
+ * Position of a run of table rows in a part
+ */
+export interface RowRange {
+    /** Index of the first <w:tr> */
+    start: number;
+    /** Index just after the last </w:tr> */
+    end: number;
+}
+
+/**
+ * Check whether a row has placeholders for the named record,
+ * e.g. {{item.name}}, {{item.price | currency}} or {{#if item.overdue}}
+ */
+const usesRecord = (rowXml: string, name: string, delimiters: Delimiters): boolean => {
+    const regex = new RegExp(`^\\s*(?:[#/]\\s*(?:(?:if|unless)\\s+)?)?${escapeRegExp(name)}(?:[.[\\s|]|$)`);
+    return extractPlaceholders(rowXml, delimiters).some(placeholder => regex.test(placeholder));
+};
+
+/**
+ * Find the prototype rows of a template table: the innermost <w:tr> with
+ * placeholders for the named record, and the rows right after it that have them too
+ */
+export const findPrototypeRows = (
+    xml: string,
+    name: string,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): RowRange | null => {
+    const regex = /<w:tr[\s>]/g;
+    let range: RowRange | null = null;
+
+    // Rows of a nested table come after the row holding them, so the last match wins
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(xml)) !== null) {
+        if (range && match.index >= range.end) break;
+
+        const end = findElementEnd(xml, match.index);
+        if (usesRecord(xml.slice(match.index, end), name, delimiters)) {
+            range = { start: match.index, end };
+        }
+    }
+    if (!range) return null;
+
+    // A record may take several rows
+    let next: RegExpMatchArray | null;
+    while ((next = xml.slice(range.end).match(/^\s*(?=<w:tr[\s>])/)) !== null) {
+        const start = range.end + next[0].length;
+        const end = findElementEnd(xml, start);
+        if (!usesRecord(xml.slice(start, end), name, delimiters)) break;
+        range.end = end;
+    }
+
+    return range;
+};
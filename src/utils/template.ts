@@ -0,0 +1,406 @@
+/**
+ * Block tag processing for DOCX templates
+ *
+ * - Loops: {{#items}}...{{/items}}
+ * - Conditions: {{#if key}}...{{else}}...{{/if}} and {{#unless key}}...{{/unless}}
+ */
+
+import { Delimiters, PlaceholderData, PlaceholderValue } from '../types';
+import { getAncestors, getTextContent, XmlElementRange } from './xml';
+import { isPlainObject, resolvePath } from './data';
+import { DEFAULT_DELIMITERS, escapeRegExp } from './string';
+
+/**
+ * A block tag found in XML content
+ */
+export interface BlockTag {
+    /** Tag type: '#' opens a block, '/' closes it, 'else' splits a condition */
+    type: '#' | '/' | 'else';
+    /** Block name (e.g. "items" for {{#items}}, "if" for {{#if key}}) */
+    name: string;
+    /** Text after the name (e.g. "key" for {{#if key}}) */
+    argument: string;
+    /** The tag as written in the template */
+    text: string;
+    /** Index of the tag in the content */
+    start: number;
+    /** Index just after the tag */
+    end: number;
+}
+
+/**
+ * A matched pair of opening and closing block tags
+ */
+export interface Block {
+    open: BlockTag;
+    close: BlockTag;
+    /** {{else}} tag directly inside the block */
+    else?: BlockTag;
+}
+
+/**
+ * Resolved location of a block and the content it repeats
+ */
+export interface BlockRange {
+    /** Start of the content replaced by the rendered block */
+    start: number;
+    /** End of the content replaced by the rendered block */
+    end: number;
+    /** Template content of the block with its tags removed */
+    inner: string;
+    /** Template content after {{else}}, if the block has one */
+    elseInner?: string;
+    /** Whether the block sits inside a single paragraph */
+    inline: boolean;
+}
+
+/**
+ * Renders a fragment of XML against a data scope
+ */
+export type FragmentRenderer = (fragment: string, scope: PlaceholderData) => string;
+
+const CONDITION_BLOCKS = ['if', 'unless'];
+
+/**
+ * Find all block tags in content
+ */
+export const findBlockTags = (content: string, delimiters: Delimiters = DEFAULT_DELIMITERS): BlockTag[] => {
+    const tags: BlockTag[] = [];
+    const open = escapeRegExp(delimiters[0]);
+    const close = escapeRegExp(delimiters[1]);
+    const regex = new RegExp(`${open}(?:([#/])((?:(?!${open})[^<])+?)|(else))${close}`, 'g');
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+        const [name, ...rest] = (match[2] || match[3]).trim().split(/\s+/);
+        tags.push({
+            type: (match[1] || match[3]) as BlockTag['type'],
+            name,
+            argument: rest.join(' '),
+            text: match[0],
+            start: match.index,
+            end: match.index + match[0].length
+        });
+    }
+
+    return tags;
+};
+
+/**
+ * Find the first top-level block at or after the given index
+ */
+export const findBlock = (
+    content: string,
+    fromIndex: number = 0,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): Block | null => {
+    const tags = findBlockTags(content, delimiters).filter(tag => tag.start >= fromIndex);
+    const stack: { open: BlockTag; else?: BlockTag }[] = [];
+
+    for (const tag of tags) {
+        if (tag.type === '#') {
+            stack.push({ open: tag });
+            continue;
+        }
+
+        if (tag.type === 'else') {
+            const current = stack[stack.length - 1];
+            if (!current || !CONDITION_BLOCKS.includes(current.open.name)) {
+                throw new Error(`${tag.text} must be inside an "if" or "unless" block`);
+            }
+            if (current.else) {
+                throw new Error(`Block ${current.open.text} has more than one ${tag.text}`);
+            }
+            current.else = tag;
+            continue;
+        }
+
+        const current = stack.pop();
+        if (!current) {
+            throw new Error(`Closing tag ${tag.text} has no matching opening tag`);
+        }
+        if (current.open.name !== tag.name) {
+            throw new Error(`Block ${current.open.text} is closed by ${tag.text}`);
+        }
+        if (stack.length === 0) {
+            return { open: current.open, close: tag, else: current.else };
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new Error(`Block ${stack[0].open.text} is never closed`);
+    }
+
+    return null;
+};
+
+/**
+ * Check whether a block is an {{#if}} or {{#unless}} condition
+ */
+export const isConditionBlock = (block: Block): boolean => {
+    return CONDITION_BLOCKS.includes(block.open.name);
+};
+
+/**
+ * Check whether an element contains nothing but the given tag
+ */
+const containsOnlyTag = (content: string, element: XmlElementRange, tag: BlockTag): boolean => {
+    const elementXml = content.slice(element.start, element.end);
+    if (/<w:drawing|<w:pict|<w:object|<w:sectPr/.test(elementXml)) {
+        return false;
+    }
+    return getTextContent(elementXml).trim() === content.slice(tag.start, tag.end);
+};
+
+/**
+ * Remove a tag from an element, dropping the element when the tag was its only content
+ */
+const stripTagFromElement = (content: string, element: XmlElementRange, tag: BlockTag): string => {
+    if (containsOnlyTag(content, element, tag)) {
+        return '';
+    }
+    return content.slice(element.start, tag.start) + content.slice(tag.end, element.end);
+};
+
+/**
+ * Work out what a block spans in the document structure.
+ *
+ * - Tags in the same paragraph cover the inline content between them.
+ * - Tags in different cells of one table row cover the whole row.
+ * - Otherwise the block covers the sibling elements (paragraphs, table rows,
+ *   tables) holding the tags. Elements that only hold a tag are removed.
+ */
+export const resolveBlockRange = (content: string, block: Block): BlockRange => {
+    const { open, close } = block;
+    const elseTag = block.else;
+    const openAncestors = getAncestors(content, open.start);
+    const closeAncestors = getAncestors(content, close.start);
+
+    let depth = 0;
+    while (
+        depth < openAncestors.length &&
+        depth < closeAncestors.length &&
+        openAncestors[depth].start === closeAncestors[depth].start
+    ) {
+        depth++;
+    }
+
+    // In a fragment rendered on its own (a loop body), tags in different
+    // top-level elements share no ancestor but still span several elements
+    const common = openAncestors.slice(0, depth);
+    const isInline = common.some(element => element.name === 'w:p') ||
+        depth >= openAncestors.length ||
+        depth >= closeAncestors.length;
+
+    if (isInline) {
+        return {
+            start: open.start,
+            end: close.end,
+            inner: content.slice(open.end, elseTag ? elseTag.start : close.start),
+            elseInner: elseTag ? content.slice(elseTag.end, close.start) : undefined,
+            inline: true
+        };
+    }
+
+    const container = common[common.length - 1];
+    if (container?.name === 'w:tr') {
+        if (elseTag) {
+            throw new Error(`${elseTag.text} cannot split a single table row in ${open.text}`);
+        }
+        return {
+            start: container.start,
+            end: container.end,
+            inner: content.slice(container.start, open.start) +
+                content.slice(open.end, close.start) +
+                content.slice(close.end, container.end),
+            inline: false
+        };
+    }
+
+    const first = openAncestors[depth];
+    const last = closeAncestors[depth];
+
+    if (!elseTag) {
+        return {
+            start: first.start,
+            end: last.end,
+            inner: stripTagFromElement(content, first, open) +
+                content.slice(first.end, last.start) +
+                stripTagFromElement(content, last, close),
+            inline: false
+        };
+    }
+
+    const middle = getAncestors(content, elseTag.start)[depth];
+    if (middle.start === first.start || middle.start === last.start) {
+        throw new Error(`${elseTag.text} must be in its own paragraph when ${open.text} spans several paragraphs`);
+    }
+
+    return {
+        start: first.start,
+        end: last.end,
+        inner: stripTagFromElement(content, first, open) +
+            content.slice(first.end, middle.start),
+        elseInner: stripTagFromElement(content, middle, elseTag) +
+            content.slice(middle.end, last.start) +
+            stripTagFromElement(content, last, close),
+        inline: false
+    };
+};
+
+/**
+ * Check whether a paragraph has no visible content left
+ */
+const isEmptyParagraph = (xml: string): boolean => {
+    return getTextContent(xml) === '' &&
+        !/<w:(drawing|pict|object|sectPr|tab|br|sym|fldSimple|fldChar)\b/.test(xml);
+};
+
+/**
+ * Tidy up the structure around content removed by a block: drop paragraphs
+ * left empty by an inline block, drop tables left without rows, and keep a
+ * paragraph in table cells (every cell must end with one).
+ *
+ * @returns the updated content and the position scanning should resume from
+ */
+const tidyAfterRemoval = (content: string, position: number, inline: boolean): { content: string; position: number } => {
+    let result = content;
+    let resume = position;
+    let removeEmptyParagraph = inline;
+    const ancestors = getAncestors(result, position);
+    let shift = 0;
+
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+        const element = { ...ancestors[i], end: ancestors[i].end - shift };
+        const xml = result.slice(element.start, element.end);
+
+        if (element.name === 'w:p') {
+            if (!removeEmptyParagraph || !isEmptyParagraph(xml)) break;
+        } else if (element.name === 'w:tbl') {
+            if (/<w:tr[\s>]/.test(xml)) break;
+        } else if (element.name === 'w:tc') {
+            if (!/<w:p[\s>/]/.test(xml)) {
+                const closeIndex = element.end - '</w:tc>'.length;
+                result = result.slice(0, closeIndex) + '<w:p/>' + result.slice(closeIndex);
+            }
+            break;
+        } else {
+            if (!['w:r', 'w:t', 'w:hyperlink', 'w:smartTag', 'w:sdt', 'w:sdtContent'].includes(element.name)) break;
+            continue;
+        }
+
+        result = result.slice(0, element.start) + result.slice(element.end);
+        shift += element.end - element.start;
+        resume = element.start;
+        removeEmptyParagraph = false;
+    }
+
+    return { content: result, position: resume };
+};
+
+/**
+ * Replace a block with its rendered content
+ *
+ * @returns the updated content and the position of the rendered content
+ */
+const replaceBlock = (content: string, range: BlockRange, rendered: string): { content: string; position: number } => {
+    const result = content.slice(0, range.start) + rendered + content.slice(range.end);
+    if (rendered !== '') {
+        return { content: result, position: range.start };
+    }
+    return tidyAfterRemoval(result, range.start, range.inline);
+};
+
+/**
+ * Get the list of scopes a block value expands to
+ */
+const getLoopScopes = (value: PlaceholderValue | undefined, scope: PlaceholderData): PlaceholderData[] => {
+    if (!isTruthy(value)) {
+        return [];
+    }
+
+    const items = Array.isArray(value) ? value : [value];
+    return items.map(item =>
+        isPlainObject(item)
+            ? { ...scope, ...item }
+            : { ...scope, '.': item }
+    );
+};
+
+/**
+ * Check whether a data value counts as true for a condition
+ */
+export const isTruthy = (value: PlaceholderValue | undefined): boolean => {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return Boolean(value);
+};
+
+/**
+ * Expand {{#key}}...{{/key}} blocks, rendering the enclosed content once per
+ * array element. Placeholders inside a block resolve against the element
+ * first and fall back to the outer data. Condition blocks are left alone.
+ */
+export const expandLoops = (
+    content: string,
+    data: PlaceholderData,
+    render: FragmentRenderer,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): string => {
+    let result = content;
+    let index = 0;
+
+    let block: Block | null;
+    while ((block = findBlock(result, index, delimiters)) !== null) {
+        if (isConditionBlock(block)) {
+            index = block.close.end;
+            continue;
+        }
+
+        const range = resolveBlockRange(result, block);
+        const scopes = getLoopScopes(resolvePath(data, block.open.name), data);
+        const rendered = scopes.map(scope => render(range.inner, scope)).join('');
+
+        const replaced = replaceBlock(result, range, rendered);
+        result = replaced.content;
+        index = replaced.position + rendered.length;
+    }
+
+    return result;
+};
+
+/**
+ * Evaluate {{#if key}}...{{else}}...{{/if}} and {{#unless key}}...{{/unless}}
+ * blocks, keeping the branch selected by the data and removing the rest.
+ * Loop blocks are skipped: conditions inside them are evaluated per element
+ * when the loop is rendered.
+ */
+export const expandConditions = (
+    content: string,
+    data: PlaceholderData,
+    delimiters: Delimiters = DEFAULT_DELIMITERS
+): string => {
+    let result = content;
+    let index = 0;
+
+    let block: Block | null;
+    while ((block = findBlock(result, index, delimiters)) !== null) {
+        if (!isConditionBlock(block)) {
+            index = block.close.end;
+            continue;
+        }
+
+        const range = resolveBlockRange(result, block);
+        const truthy = isTruthy(resolvePath(data, block.open.argument));
+        const keep = truthy === (block.open.name === 'if');
+        const rendered = keep ? range.inner : (range.elseInner || '');
+
+        // Resume at the kept content so nested conditions are evaluated too
+        const replaced = replaceBlock(result, range, rendered);
+        result = replaced.content;
+        index = replaced.position;
+    }
+
+    return result;
+};
@@ -2,7 +2,7 @@
  * XML manipulation utilities for DOCX processing
  */
 
-import { replaceAll, fixDoubleEscaping } from './string';
+import { replaceAll, fixDoubleEscaping, escapeForXml } from './string';
 
 /**
  * Find and replace content in XML string
@@ -78,6 +78,73 @@ export const addRelationship = (
     return replaceAll(relsContent, closingTag, relationshipXml + '\n' + closingTag);
 };
 
+/**
+ * Relationship types used when adding parts and links
+ */
+export const RELATIONSHIP_TYPES = {
+    hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+    image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+    numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering'
+};
+
+/**
+ * Relationships part for parts that don't have one yet
+ */
+export const EMPTY_RELATIONSHIPS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+/**
+ * Number the drawings (wp:docPr) of a part from firstId on, as their IDs
+ * must be unique across the document
+ * @returns The renumbered part and the next free ID
+ */
+export const numberDrawings = (xml: string, firstId: number): { xml: string; nextId: number } => {
+    let nextId = firstId;
+    const result = xml.replace(/(<wp:docPr\b[^>]*?\sid=")\d+"/g, (_, start: string) => `${start}${nextId++}"`);
+    return { xml: result, nextId };
+};
+
+/**
+ * Content type of relationships parts
+ */
+export const RELATIONSHIPS_CONTENT_TYPE = 'application/vnd.openxmlformats-package.relationships+xml';
+
+/**
+ * Get the relationships part of a part (word/header1.xml -> word/_rels/header1.xml.rels)
+ */
+export const getRelationshipsPath = (partPath: string): string => {
+    const index = partPath.lastIndexOf('/');
+    return `${partPath.slice(0, index + 1)}_rels/${partPath.slice(index + 1)}.rels`;
+};
+
+/**
+ * Generate a relationship element
+ */
+export const generateRelationship = (
+    id: string,
+    type: string,
+    target: string,
+    external: boolean = false
+): string => {
+    const mode = external ? ' TargetMode="External"' : '';
+    return `<Relationship Id="${id}" Type="${type}" Target="${escapeForXml(target)}"${mode} />`;
+};
+
+/**
+ * Find the ID of an existing relationship with the given type and target
+ */
+export const findRelationshipId = (relsContent: string, type: string, target: string): string | null => {
+    const escapedTarget = escapeForXml(target);
+    for (const element of relsContent.match(/<Relationship\s[^>]*>/g) || []) {
+        const attribute = (name: string): string | undefined =>
+            element.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+        if (attribute('Type') === type && attribute('Target') === escapedTarget) {
+            return attribute('Id') || null;
+        }
+    }
+    return null;
+};
+
 /**
  * Extract relationship IDs from rels XML
  */
@@ -117,6 +184,23 @@ export const addContentType = (
     return replaceAll(contentTypesXml, closingTag, newType + '\n' + closingTag);
 };
 
+/**
+ * Add a content type override for a part to [Content_Types].xml
+ */
+export const addContentTypeOverride = (
+    contentTypesXml: string,
+    partName: string,
+    contentType: string
+): string => {
+    if (contentTypesXml.includes(`PartName="${partName}"`)) {
+        return contentTypesXml;
+    }
+
+    const override = `<Override PartName="${partName}" ContentType="${contentType}" />`;
+    const closingTag = '</Types>';
+    return replaceAll(contentTypesXml, closingTag, override + '\n' + closingTag);
+};
+
 /**
  * Common content types for images
  */
@@ -153,3 +237,73 @@ export const isValidXml = (xml: string): boolean => {
         return false;
     }
 };
+
+/**
+ * Location of an element inside an XML string
+ */
+export interface XmlElementRange {
+    /** Qualified tag name (e.g. "w:p") */
+    name: string;
+    /** Index of the opening "<" */
+    start: number;
+    /** Index just after the closing tag */
+    end: number;
+}
+
+const XML_TAG_REGEX = /<(\/?)([A-Za-z_][\w.:-]*)[^>]*?(\/?)>/g;
+
+/**
+ * Find the end index of the element starting at the given position
+ */
+export const findElementEnd = (xml: string, start: number): number => {
+    const regex = new RegExp(XML_TAG_REGEX.source, 'g');
+    regex.lastIndex = start;
+
+    let depth = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(xml)) !== null) {
+        if (match[1]) {
+            depth--;
+        } else if (!match[3]) {
+            depth++;
+        }
+
+        if (depth <= 0) {
+            return match.index + match[0].length;
+        }
+    }
+
+    return xml.length;
+};
+
+/**
+ * Get the elements enclosing a position, outermost first
+ */
+export const getAncestors = (xml: string, position: number): XmlElementRange[] => {
+    const regex = new RegExp(XML_TAG_REGEX.source, 'g');
+    const stack: { name: string; start: number }[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(xml)) !== null && match.index < position) {
+        if (match[1]) {
+            stack.pop();
+        } else if (!match[3]) {
+            stack.push({ name: match[2], start: match.index });
+        }
+    }
+
+    return stack.map(element => ({
+        ...element,
+        end: findElementEnd(xml, element.start)
+    }));
+};
+
+/**
+ * Get the visible text of a WordprocessingML fragment
+ */
+export const getTextContent = (xml: string): string => {
+    const matches = xml.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>/g);
+    if (!matches) return '';
+
+    return matches.map(m => m.replace(/<[^>]+>/g, '')).join('');
+};
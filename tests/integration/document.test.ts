@@ -3,6 +3,8 @@
  */
 
 import { DocxGenerator } from '../../src/DocxGenerator';
+import { StrictModeError } from '../../src/errors';
+import { generateInlineImage } from '../../src/utils/constants';
 import * as path from 'path';
 import * as fs from 'fs';
 import AdmZip from 'adm-zip';
@@ -11,6 +13,54 @@ const fixturesPath = path.join(__dirname, '..', 'fixtures');
 const templatePath = path.join(fixturesPath, 'template.docx');
 const outputPath = path.join(fixturesPath, 'output');
 
+/**
+ * Build a minimal DOCX template with the given body XML
+ */
+const createTemplate = (bodyXml: string): Buffer => {
+    const zip = new AdmZip();
+    zip.addFile('[Content_Types].xml', Buffer.from(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '</Types>'
+    ));
+    zip.addFile('_rels/.rels', Buffer.from(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '</Relationships>'
+    ));
+    zip.addFile('word/_rels/document.xml.rels', Buffer.from(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>'
+    ));
+    zip.addFile('word/document.xml', Buffer.from(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+        'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">' +
+        `<w:body>${bodyXml}</w:body></w:document>`
+    ));
+    return zip.toBuffer();
+};
+
+/**
+ * Read document.xml from a generated DOCX buffer
+ */
+const readDocumentXml = (buffer: Buffer): string => {
+    return new AdmZip(buffer).getEntry('word/document.xml')!.getData().toString('utf8');
+};
+
+// 1x1 transparent PNG
+const PNG_1X1 = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+    'base64'
+);
+
+const para = (text: string): string => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
 describe('Document Generation Integration', () => {
     beforeAll(() => {
         // Ensure output directory exists
@@ -94,6 +144,203 @@ describe('Document Generation Integration', () => {
             const documentEntry = zip.getEntry('word/document.xml');
             expect(documentEntry).not.toBeNull();
         });
+
+        it('should map record rows through header keys, formats and empty values', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{orders}}')));
+            generator.addTable({
+                placeholder: 'orders',
+                headers: [
+                    { name: 'Customer', key: 'customer.name' },
+                    { name: 'Total', key: 'total', format: 'number:2', align: 'decimal' },
+                    { name: 'Status', key: 'status', format: (value, row) => `${value} (${(row as { id: number }).id})` },
+                    { name: 'Note', key: 'note', emptyValue: '-', align: 'center' }
+                ],
+                rows: [
+                    { id: 7, customer: { name: 'Acme' }, total: 1234.5, status: 'paid', note: null },
+                    { id: 8, customer: { name: 'Globex' }, total: 99, status: 'open', note: 'Rush' }
+                ]
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+            const cellTexts = [...xml.matchAll(/<w:t>([^<]*)<\/w:t>/g)].map(match => match[1]);
+
+            expect(cellTexts).toEqual([
+                'Customer', 'Total', 'Status', 'Note',
+                'Acme', '1,234.50', 'paid (7)', '-',
+                'Globex', '99.00', 'open (8)', 'Rush'
+            ]);
+            expect(xml).toContain('<w:tab w:val="decimal"');
+            expect(xml).toContain('<w:jc w:val="center" />');
+        });
+
+        it('should merge header and data cells across columns and rows', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{quote}}')));
+            generator.addTable({
+                placeholder: 'quote',
+                headerRows: [
+                    [{ name: 'Category', rowSpan: 2 }, { name: 'Product', rowSpan: 2 }, { name: 'Q1', colSpan: 3 }],
+                    [{ name: 'Jan' }, { name: 'Feb' }, { name: 'Mar' }]
+                ],
+                headers: [
+                    { name: 'Category', key: 'category', width: 2000 },
+                    { name: 'Product', key: 'product', width: 2000 },
+                    { name: 'Jan', key: 'jan', width: 1000 },
+                    { name: 'Feb', key: 'feb', width: 1000 },
+                    { name: 'Mar', key: 'mar', width: 1000 }
+                ],
+                rows: [
+                    { category: { value: 'Fruit', rowSpan: 2 }, product: 'Apple', jan: 1, feb: 2, mar: 3 },
+                    { product: 'Pear', jan: 4, feb: 5, mar: 6 },
+                    [{ value: 'Total', colSpan: 2 }, '5', '7', '9']
+                ]
+            });
+
+            const xml = readDocumentXml(await generator.generate()).replace(/\s+</g, '<');
+            const rows = xml.match(/<w:tr>[\s\S]*?<\/w:tr>/g)!;
+            const cellCounts = rows.map(row => row.match(/<w:tc>/g)!.length);
+
+            expect(xml).toContain('<w:tblGrid><w:gridCol w:w="2000" /><w:gridCol w:w="2000" />' +
+                '<w:gridCol w:w="1000" /><w:gridCol w:w="1000" /><w:gridCol w:w="1000" /></w:tblGrid>');
+            expect(cellCounts).toEqual([3, 5, 5, 5, 4]);
+            expect(rows[0]).toContain('<w:tcW w:w="3000" w:type="dxa" /><w:gridSpan w:val="3" />');
+            expect(rows[0].match(/<w:vMerge w:val="restart" \/>/g)).toHaveLength(2);
+            expect(rows[1].match(/<w:vMerge \/>/g)).toHaveLength(2);
+            expect(rows[2]).toContain('<w:vMerge w:val="restart" /><w:tcMar>');
+            expect(rows[2]).toContain('<w:t>Fruit</w:t>');
+            expect(rows[3]).toContain('<w:vMerge /><w:tcMar>');
+            expect(rows[3]).toContain('<w:t>Pear</w:t>');
+            expect(rows[4]).toContain('<w:tcW w:w="4000" w:type="dxa" /><w:gridSpan w:val="2" />');
+            expect(rows[4]).toContain('<w:t>Total</w:t>');
+        });
+
+        it('should style cells by column, cell and rule', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{invoices}}')));
+            generator.addTable({
+                placeholder: 'invoices',
+                headers: [
+                    { name: 'Invoice', key: 'id', style: { bold: true } },
+                    { name: 'Amount', key: 'amount' },
+                    { name: 'Status', key: 'status' }
+                ],
+                rows: [
+                    { id: 'A-1', amount: -20, status: 'overdue' },
+                    { id: 'A-2', amount: 35, status: { value: 'paid', style: { italic: true } } },
+                    ['A-3', '-5', 'open']
+                ],
+                style: {
+                    rules: [
+                        { column: 'amount', when: value => Number(value) < 0, style: { textColor: 'C00000' } },
+                        { when: (value, row) => row.status === 'overdue', style: { bgColor: 'FDE9E7' } }
+                    ]
+                }
+            });
+
+            const xml = readDocumentXml(await generator.generate()).replace(/\s+</g, '<');
+            const rows = xml.match(/<w:tr>[\s\S]*?<\/w:tr>/g)!;
+
+            expect(rows[1].match(/w:fill="FDE9E7"/g)).toHaveLength(3);
+            expect(rows[1]).toContain('<w:color w:val="C00000" /><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>-20</w:t>');
+            expect(rows[1]).toContain('<w:b /><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>A-1</w:t>');
+            expect(rows[2]).not.toContain('<w:shd');
+            expect(rows[2]).not.toContain('C00000');
+            expect(rows[2]).toContain('<w:i /><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>paid</w:t>');
+            expect(rows[3]).toContain('<w:color w:val="C00000" /><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>-5</w:t>');
+        });
+
+        it('should size columns by content to fit the section text width', async () => {
+            const sectPr = '<w:sectPr><w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/>' +
+                '<w:pgMar w:top="1440" w:right="1000" w:bottom="1440" w:left="1000" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>';
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{items}}') + sectPr));
+            generator.addTable({
+                placeholder: 'items',
+                headers: [
+                    { name: 'Name', key: 'name' },
+                    { name: 'Description', key: 'description' },
+                    { name: 'Qty', key: 'qty', width: 1000 }
+                ],
+                rows: [
+                    { name: 'Widget', description: 'A long description here', qty: 2 },
+                    { name: 'Gear', description: 'Short', qty: 1 }
+                ],
+                style: { autoWidth: true, repeatHeader: true, cantSplit: true }
+            });
+
+            const xml = readDocumentXml(await generator.generate()).replace(/\s+</g, '<');
+
+            expect(xml).toContain('<w:tblGrid><w:gridCol w:w="2863" /><w:gridCol w:w="10974" /><w:gridCol w:w="1000" /></w:tblGrid>');
+            expect(xml).toContain('<w:tblW w:w="14837" w:type="dxa" />');
+            expect(xml).toContain('<w:trHeight w:val="400" /><w:tblHeader /></w:trPr>');
+            expect(xml.match(/<w:cantSplit \/>/g)).toHaveLength(2);
+        });
+
+        it('should group rows with subtotals and add a footer with aggregates', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{sales}}')));
+            generator.addTable({
+                placeholder: 'sales',
+                headers: [
+                    { name: 'Product', key: 'product' },
+                    { name: 'Units', key: 'units', aggregate: 'count' },
+                    { name: 'Revenue', key: 'revenue', format: 'number:2', aggregate: 'sum' },
+                    { name: 'Best', key: 'revenue', aggregate: values => Math.max(...values.map(Number)) }
+                ],
+                rows: [
+                    { region: 'North', product: 'Apple', units: 3, revenue: 1200 },
+                    { region: 'South', product: 'Pear', units: 1, revenue: 80.5 },
+                    { region: 'North', product: 'Plum', units: 2, revenue: 300 }
+                ],
+                groupBy: 'region',
+                groupLabel: (value, rows) => `${value} (${rows.length})`,
+                subtotals: true,
+                footer: 'Grand total'
+            });
+
+            const xml = readDocumentXml(await generator.generate()).replace(/\s+</g, '<');
+            const rows = xml.match(/<w:tr>[\s\S]*?<\/w:tr>/g)!;
+            const texts = rows.map(row => [...row.matchAll(/<w:t>([^<]*)<\/w:t>/g)].map(match => match[1]));
+
+            expect(texts).toEqual([
+                ['Product', 'Units', 'Revenue', 'Best'],
+                ['North (2)'],
+                ['Apple', '3', '1,200.00', '1200'],
+                ['Plum', '2', '300.00', '300'],
+                ['Subtotal', '2', '1,500.00', '1200'],
+                ['South (1)'],
+                ['Pear', '1', '80.50', '80.5'],
+                ['Subtotal', '1', '80.50', '80.5'],
+                ['Grand total', '3', '1,580.50', '1200']
+            ]);
+            expect(rows[1]).toContain('<w:gridSpan w:val="4" />');
+            expect(rows[1]).toContain('<w:b />');
+            expect(rows[2]).not.toContain('<w:b />');
+            expect(rows[4]).toContain('<w:b />');
+            expect(rows[8]).toContain('<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2" />');
+            expect(rows[8]).toContain('<w:b />');
+        });
+
+        it('should format built-in aggregates in columns without a format as numbers', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{scores}}')));
+            generator.addTable({
+                placeholder: 'scores',
+                headers: [
+                    { name: 'Average', key: 'score', aggregate: 'avg' },
+                    { name: 'Sum', key: 'points', aggregate: 'sum' },
+                    { name: 'Custom', key: 'score', aggregate: values => values.length / 3 }
+                ],
+                rows: [{ score: 1, points: 1000 }, { score: 2, points: 500 }, { score: 2, points: 0.5 }],
+                footer: true
+            });
+
+            const xml = readDocumentXml(await generator.generate()).replace(/\s+</g, '<');
+            const footer = xml.match(/<w:tr>[\s\S]*?<\/w:tr>/g)!.pop()!;
+
+            expect([...footer.matchAll(/<w:t>([^<]*)<\/w:t>/g)].map(match => match[1])).toEqual(['1.67', '1,500.50', '1']);
+        });
     });
 
     describe('Table generation', () => {
@@ -128,5 +375,872 @@ describe('Document Generation Integration', () => {
             const documentEntry = zip.getEntry('word/document.xml');
             expect(documentEntry).not.toBeNull();
         });
+
+        it('should render images, paragraphs, rich text and nested tables in cells', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{products}}')));
+            generator.addTable({
+                placeholder: 'products',
+                headers: [
+                    { name: 'Photo', key: 'photo', width: 1500 },
+                    { name: 'Notes', key: 'notes' },
+                    { name: 'Name', key: 'name' },
+                    { name: 'Parts', key: 'parts', width: 3000 }
+                ],
+                rows: [{
+                    photo: { image: { buffer: PNG_1X1, width: 1905000 } },
+                    notes: { paragraphs: ['First note', [{ text: 'Second', bold: true }, { text: ' note' }]] },
+                    name: [{ text: 'Widget', italic: true }],
+                    parts: { table: { headers: [{ name: 'Part', key: 'part' }], rows: [['Bolt'], ['Nut']] } }
+                }]
+            });
+
+            const buffer = await generator.generate();
+            const zip = new AdmZip(buffer);
+            const xml = readDocumentXml(buffer).replace(/\s+</g, '<');
+            const rels = zip.getEntry('word/_rels/document.xml.rels')!.getData().toString('utf8');
+            const cellRun = '<w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" />';
+
+            // The 2 inch image shrinks to the 1300 twips inside the cell padding
+            expect(zip.getEntry('word/media/image1.png')).not.toBeNull();
+            expect(rels).toContain('Target="media/image1.png"');
+            expect(xml).toContain('<wp:extent cx="825500" cy="825500" />');
+
+            expect(xml).toContain('<w:t>First note</w:t></w:r></w:p><w:p><w:pPr>');
+            expect(xml).toContain(`<w:rPr>${cellRun}<w:b/><w:bCs/><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>Second</w:t>`);
+            expect(xml).toContain(`<w:rPr>${cellRun}<w:i/><w:iCs/><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>Widget</w:t>`);
+
+            // The nested table is followed by the paragraph a cell must end with
+            expect(xml.match(/<w:tbl>/g)).toHaveLength(2);
+            expect(xml).toContain('<w:t>Nut</w:t>');
+            expect(xml).toMatch(/<\/w:tbl><w:p><w:pPr>(?:(?!<w:r>)[\s\S])*?<\/w:pPr><\/w:p><\/w:tc>/);
+        });
+
+        it('should report cell images that fail to load and leave their cells empty', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{gallery}}')));
+            generator.addTable({
+                placeholder: 'gallery',
+                headers: [{ name: 'Photo', key: 'photo' }],
+                rows: [[{ image: { path: path.join(fixturesPath, 'missing.png') } }]]
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(generator.getReport()!.failedImages).toEqual([
+                expect.objectContaining({ placeholder: 'gallery' })
+            ]);
+            expect(xml).not.toContain('<w:drawing>');
+        });
+
+        it('should use a table style from the template by name or ID and fail on unknown styles', async () => {
+            const zip = new AdmZip(createTemplate(para('{{totals}}')));
+            zip.addFile('word/styles.xml', Buffer.from(
+                '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+                '<w:style w:type="table" w:styleId="GridTable4-Accent1"><w:name w:val="Grid Table 4 Accent 1"/></w:style>' +
+                '</w:styles>'
+            ));
+            const config = {
+                placeholder: 'totals',
+                headers: [{ name: 'Region', key: 'region' }, { name: 'Revenue', key: 'revenue', aggregate: 'sum' as const }],
+                rows: [{ region: 'North', revenue: 10 }, { region: 'South', revenue: 20 }],
+                footer: true
+            };
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.addTable({ ...config, templateStyle: 'grid table 4 accent 1', style: { fontSize: 20 } });
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('<w:tblStyle w:val="GridTable4-Accent1" />');
+            expect(xml).toContain('<w:tblLook w:val="0460" w:firstRow="1" w:lastRow="1" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1" />');
+            expect(xml).toContain('<w:sz w:val="20" />');
+            expect(xml).not.toContain('<w:tblBorders>');
+            expect(xml).not.toContain('<w:rFonts');
+            expect(xml).not.toContain('<w:tcMar>');
+
+            const byId = new DocxGenerator();
+            await byId.loadTemplate(zip.toBuffer());
+            byId.addTable({ ...config, templateStyle: 'GridTable4-Accent1', look: { bandedRows: false } });
+            const byIdXml = readDocumentXml(await byId.generate());
+            expect(byIdXml).toContain('w:noHBand="1"');
+            expect(byIdXml).not.toMatch(/<w:vAlign|<w:jc|<w:tblLayout|<w:trPr>|<w:rPr>\s*<\/w:rPr>/);
+
+            const missing = new DocxGenerator();
+            await missing.loadTemplate(zip.toBuffer());
+            missing.addTable({ ...config, templateStyle: 'Corporate' });
+            await expect(missing.generate()).rejects.toThrow('Table style "Corporate" not found');
+        });
+    });
+
+    describe('Repeating sections', () => {
+        it('should repeat paragraphs and table rows for each record', async () => {
+            const row = '<w:tr><w:tc>' + para('{{#lines}}{{sku}}') + '</w:tc><w:tc>' + para('{{qty}}{{/lines}}') + '</w:tc></w:tr>';
+            const template = createTemplate(
+                para('{{#attendees}}') + para('{{name}} ({{role}})') + para('{{/attendees}}') +
+                `<w:tbl>${row}</w:tbl>`
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator.setData({
+                attendees: [{ name: 'Ann', role: 'Chair' }, { name: 'Bob', role: 'Notes' }],
+                lines: [{ sku: 'A-1', qty: '2' }, { sku: 'B-2', qty: '5' }]
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('Ann (Chair)');
+            expect(xml).toContain('Bob (Notes)');
+            expect((xml.match(/<w:tr>/g) || []).length).toBe(2);
+            expect(xml).toContain('B-2');
+            expect(xml).not.toContain('{{');
+        });
+    });
+
+    describe('Nested data', () => {
+        it('should resolve dot-path placeholders', async () => {
+            const template = createTemplate(
+                para('{{customer.address.city}}') + para('{{order.lines[1].sku}}') + para('{{total}} / {{paid}} / {{due}}')
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator.setData({
+                customer: { address: { city: 'Berlin' } },
+                order: { lines: [{ sku: 'A-1' }, { sku: 'B-2' }] },
+                total: 1200,
+                paid: false,
+                due: new Date(2026, 1, 3)
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('Berlin');
+            expect(xml).toContain('B-2');
+            expect(xml).toContain('1200 / false / 2026-02-03');
+        });
+    });
+
+    describe('Formatters', () => {
+        it('should format placeholders and generated table cells', async () => {
+            const template = createTemplate(
+                para('{{total | currency:"EUR"}}') +
+                para('{{due | date:"dd MMM yyyy"}}') +
+                para('{{name | initials}} {{note | default:"n/a"}}') +
+                para('{{lines}}')
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator
+                .registerFormatter('initials', value => String(value).split(' ').map(part => part[0]).join(''))
+                .setData({ total: 1200, due: new Date(2026, 0, 9), name: 'Jane Roe' })
+                .addTable({
+                    placeholder: 'lines',
+                    headers: [
+                        { name: 'Item', key: 'item', format: 'upper' },
+                        { name: 'Price', key: 'price', format: 'currency:"USD"' }
+                    ],
+                    rows: [['widget', '99']]
+                });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('€1,200.00');
+            expect(xml).toContain('09 Jan 2026');
+            expect(xml).toContain('JR n/a');
+            expect(xml).toContain('WIDGET');
+            expect(xml).toContain('$99.00');
+        });
+    });
+
+    describe('Split placeholders', () => {
+        it('should replace placeholders split across runs and keep formatting', async () => {
+            const template = createTemplate(
+                '<w:p>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Dear {{custo</w:t></w:r>' +
+                '<w:proofErr w:type="spellStart"/>' +
+                '<w:r><w:t>merName}}</w:t></w:r>' +
+                '<w:proofErr w:type="spellEnd"/>' +
+                '</w:p>' +
+                '<w:p><w:r><w:t>{{item</w:t></w:r><w:r><w:t>sTable}}</w:t></w:r></w:p>' +
+                '<w:p><w:r><w:rPr><w:i/></w:rPr><w:t xml:space="preserve">Logo: {{lo</w:t></w:r><w:r><w:t>go}}</w:t></w:r></w:p>'
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator
+                .setData({ customerName: 'Jane' })
+                .addTable({ placeholder: 'itemsTable', headers: [{ name: 'Item', key: 'item' }], rows: [['A']] })
+                .setImages([{ placeholder: 'logo', buffer: PNG_1X1 }]);
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('<w:r><w:rPr><w:b/></w:rPr><w:t>Dear Jane</w:t></w:r>');
+            expect(xml).toContain('<w:tbl>');
+            expect(xml).toContain('<w:r><w:rPr><w:i/></w:rPr><w:drawing>');
+            expect(xml).not.toMatch(/<w:t[^>]*>[^<]*<w:drawing/);
+            expect(xml).not.toContain('{{');
+        });
+    });
+
+    describe('Images', () => {
+        it('should size images from their pixels, aspect ratio and units', async () => {
+            // 4x2 PNG header at 96 DPI
+            const wide = Buffer.from(PNG_1X1);
+            wide.writeUInt32BE(4, 16);
+            wide.writeUInt32BE(2, 20);
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{natural}}') + para('{{byWidth}}') + para('{{boxed}}')));
+            generator.setImages([
+                { placeholder: 'natural', buffer: wide },
+                { placeholder: 'byWidth', buffer: wide, width: '2in' },
+                { placeholder: 'boxed', buffer: wide, width: '10cm', maxHeight: '1cm' }
+            ]);
+
+            const extents = [...readDocumentXml(await generator.generate()).matchAll(/<wp:extent cx="(\d+)" cy="(\d+)"/g)]
+                .map(match => [Number(match[1]), Number(match[2])]);
+
+            expect(extents).toEqual([[38100, 19050], [1828800, 914400], [720000, 360000]]);
+        });
+
+        it('should give header and footer images their own relationships to shared media', async () => {
+            const zip = new AdmZip(createTemplate(para('{{logo}}')));
+            const part = (tag: string, body: string) => Buffer.from(
+                `<w:${tag} xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ` +
+                'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+                `${body}</w:${tag}>`
+            );
+            zip.addFile('word/header1.xml', part('hdr', para('{{logo}}') + para('{{notes}}')));
+            zip.addFile('word/footer1.xml', part('ftr', para('{{logo}}')));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator
+                .setHeader({ notes: { html: `<img src="data:image/png;base64,${PNG_1X1.toString('base64')}">` } })
+                .setImages([{ placeholder: 'logo', buffer: PNG_1X1 }]);
+            const output = new AdmZip(await generator.generate());
+            const read = (name: string) => output.getEntry(name)!.getData().toString('utf8');
+
+            for (const name of ['header1', 'footer1']) {
+                const rels = read(`word/_rels/${name}.xml.rels`);
+                const embeds = [...read(`word/${name}.xml`).matchAll(/r:embed="([^"]+)"/g)].map(match => match[1]);
+                expect(embeds.length).toBeGreaterThan(0);
+                for (const id of embeds) {
+                    expect(rels).toMatch(new RegExp(`Id="${id}" Type="[^"]*/image" Target="media/image\\d\\.png"`));
+                }
+            }
+            expect(read('word/_rels/header1.xml.rels').match(/Target="media\/image1\.png"/g)).toHaveLength(1);
+            expect(output.getEntries().filter(entry => entry.entryName.startsWith('word/media/'))).toHaveLength(2);
+            expect(read('[Content_Types].xml')).toContain('Extension="rels"');
+        });
+
+        it('should float images with their position, wrapping and unique drawing IDs', async () => {
+            const zip = new AdmZip(createTemplate(para('{{photo}}') + para('{{stamp}}')));
+            zip.addFile('word/header1.xml', Buffer.from(
+                '<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' + para('{{photo}}') + '</w:hdr>'
+            ));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.setImages([
+                { placeholder: 'photo', buffer: PNG_1X1, width: '2in' },
+                {
+                    placeholder: 'stamp',
+                    buffer: PNG_1X1,
+                    width: '3cm',
+                    layout: { horizontalFrom: 'page', x: '15cm', verticalFrom: 'page', y: '-1cm', wrap: 'behind', zIndex: 2 }
+                }
+            ]);
+            const output = new AdmZip(await generator.generate());
+            const xml = output.getEntry('word/document.xml')!.getData().toString('utf8').replace(/\s+</g, '<');
+            const headerXml = output.getEntry('word/header1.xml')!.getData().toString('utf8');
+
+            expect(xml).toContain('<wp:inline');
+            expect(xml).toContain('relativeHeight="251658242" behindDoc="1"');
+            expect(xml).toContain('<wp:positionH relativeFrom="page"><wp:posOffset>5400000</wp:posOffset></wp:positionH>');
+            expect(xml).toContain('<wp:positionV relativeFrom="page"><wp:posOffset>-360000</wp:posOffset></wp:positionV>');
+            expect(xml).toContain('<wp:extent cx="1080000" cy="1080000" /><wp:effectExtent l="0" t="0" r="0" b="0" /><wp:wrapNone />');
+            expect([...(xml + headerXml).matchAll(/<wp:docPr id="(\d+)"/g)].map(match => match[1])).toEqual(['1', '2', '3']);
+        });
+
+        it('should swap images into template pictures by alt text, keeping their frame', async () => {
+            const picture = (docPr: string) => '<w:p><w:r>' + generateInlineImage('rId7', 1828800, 1828800)
+                .replace('<wp:docPr id="1" name="Picture" />', `<wp:docPr id="1" ${docPr} />`)
+                .replace('<a:stretch>', '<a:srcRect t="10000" /><a:stretch>') + '</w:r></w:p>';
+            const zip = new AdmZip(createTemplate(picture('name="Picture 1" descr="logo"') + picture('name="Picture 2" descr="other"')));
+            zip.addFile('word/header1.xml', Buffer.from(
+                '<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+                picture('name="Picture 3" title="{{banner}}"') + '</w:hdr>'
+            ));
+            zip.addFile('word/_rels/document.xml.rels', Buffer.from(
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/dummy.png"/>' +
+                '</Relationships>'
+            ));
+
+            // 4x2 PNG header
+            const wide = Buffer.from(PNG_1X1);
+            wide.writeUInt32BE(4, 16);
+            wide.writeUInt32BE(2, 20);
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.setImages([
+                { placeholder: 'logo', buffer: PNG_1X1, replacePicture: true },
+                { placeholder: 'banner', buffer: wide, replacePicture: true, pictureFit: 'contain' },
+                { placeholder: 'missing', buffer: PNG_1X1, replacePicture: true }
+            ]);
+            const output = new AdmZip(await generator.generate());
+            const read = (name: string) => output.getEntry(name)!.getData().toString('utf8');
+            const xml = read('word/document.xml');
+            const headerXml = read('word/header1.xml');
+
+            const [logoId] = [...xml.matchAll(/r:embed="([^"]+)"/g)].map(match => match[1]);
+            expect(logoId).not.toBe('rId7');
+            expect(read('word/_rels/document.xml.rels')).toContain(`Id="${logoId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"`);
+            expect(xml.match(/r:embed="rId7"/g)).toHaveLength(1);
+            expect(xml.match(/<wp:extent cx="1828800" cy="1828800" \/>/g)).toHaveLength(2);
+            expect(xml).toContain('<a:srcRect t="10000" />');
+
+            const [bannerId] = [...headerXml.matchAll(/r:embed="([^"]+)"/g)].map(match => match[1]);
+            expect(read('word/_rels/header1.xml.rels')).toContain(`Id="${bannerId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image2.png"`);
+            expect(headerXml).toContain('<wp:extent cx="1828800" cy="822960" />');
+
+            expect(generator.getReport()!.missingImages).toEqual(['missing']);
+        });
+
+        it('should keep the template\'s own media and relationships', async () => {
+            const picture = (id: string, docPr: string) => '<w:p><w:r>' + generateInlineImage(id, 1828800, 1828800)
+                .replace('<wp:docPr id="1" name="Picture" />', `<wp:docPr id="1" ${docPr} />`) + '</w:r></w:p>';
+            const zip = new AdmZip(createTemplate(picture('rId5', 'name="Picture 1" descr="{{logo}}"') + picture('rId6', 'name="Decor"')));
+            const decor = Buffer.from(PNG_1X1);
+            decor.writeUInt32BE(3, 16);
+            zip.addFile('word/media/image1.gif', Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1'));
+            zip.addFile('word/media/image1.png', decor);
+            zip.addFile('word/_rels/document.xml.rels', Buffer.from(
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.gif"/>' +
+                '<Relationship Id="rId6" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>' +
+                '</Relationships>'
+            ));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.setImages([{ placeholder: 'logo', buffer: PNG_1X1, replacePicture: true }]);
+            const output = new AdmZip(await generator.generate());
+            const rels = output.getEntry('word/_rels/document.xml.rels')!.getData().toString('utf8');
+            const embeds = [...readDocumentXml(output.toBuffer()).matchAll(/r:embed="([^"]+)"/g)].map(match => match[1]);
+
+            expect(embeds[0]).not.toMatch(/^rId[56]$/);
+            expect(rels).toContain(`Id="${embeds[0]}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image2.png"`);
+            expect(embeds[1]).toBe('rId6');
+            expect(rels).toContain('Id="rId6" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"');
+            expect(output.getEntry('word/media/image1.png')!.getData()).toEqual(decor);
+            expect(output.getEntry('word/media/image2.png')!.getData()).toEqual(PNG_1X1);
+        });
+    });
+
+    describe('Custom delimiters', () => {
+        it('should honor configured delimiters and escaped literals', async () => {
+            const template = createTemplate(
+                para('Hello ${customer.name}, {{untouched}}') +
+                para('${#items}${sku} ${/items}') +
+                para('Literal \\${name}') +
+                para('${itemsTable}') +
+                para('${logo}')
+            );
+
+            const generator = new DocxGenerator({ delimiters: ['${', '}'] });
+            await generator.loadTemplate(template);
+            generator
+                .setData({ customer: { name: 'Jane' }, items: [{ sku: 'A' }, { sku: 'B' }], name: 'x' })
+                .addTable({ placeholder: '${itemsTable}', headers: [{ name: 'Item', key: 'item' }], rows: [['A']] })
+                .setImages([{ placeholder: 'logo', buffer: PNG_1X1 }]);
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('Hello Jane, {{untouched}}');
+            expect(xml).toContain('A B ');
+            expect(xml).toContain('Literal ${name}');
+            expect(xml).toContain('<w:tbl>');
+            expect(xml).toContain('<w:drawing>');
+        });
+
+        it('should reject invalid delimiters', () => {
+            expect(() => new DocxGenerator({ delimiters: ['', ''] })).toThrow('Delimiters');
+        });
+    });
+
+    describe('Template inspection', () => {
+        it('should list placeholders in the body and headers', async () => {
+            const zip = new AdmZip(createTemplate(
+                '<w:p><w:r><w:t>Dear {{cust</w:t></w:r><w:r><w:t>omer.name}}</w:t></w:r></w:p>' +
+                para('{{#items}}{{sku | upper}}{{/items}}') +
+                para('{{#if paid}}Paid{{/if}}') +
+                para('{{itemsTable}}') +
+                para('{{logo}}')
+            ));
+            zip.addFile('word/header1.xml', Buffer.from(
+                '<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+                para('{{company}}') +
+                '</w:hdr>'
+            ));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator
+                .addTable({ placeholder: 'itemsTable', headers: [{ name: 'Item', key: 'item' }], rows: [] })
+                .setImages([{ placeholder: 'logo', buffer: PNG_1X1 }]);
+
+            const { parts, placeholders } = generator.inspect();
+
+            expect(parts).toEqual(['word/document.xml', 'word/header1.xml']);
+            expect(placeholders.map(p => [p.kind, p.path, p.part])).toEqual([
+                ['text', 'customer.name', 'word/document.xml'],
+                ['loop', 'items', 'word/document.xml'],
+                ['text', 'sku', 'word/document.xml'],
+                ['condition', 'paid', 'word/document.xml'],
+                ['table', 'itemsTable', 'word/document.xml'],
+                ['image', 'logo', 'word/document.xml'],
+                ['text', 'company', 'word/header1.xml']
+            ]);
+            expect(placeholders[0].split).toBe(true);
+        });
+
+        it('should inspect a template without a generator', async () => {
+            const result = await DocxGenerator.inspectTemplate(createTemplate(para('${name}')), { delimiters: ['${', '}'] });
+
+            expect(result.placeholders.map(p => p.path)).toEqual(['name']);
+        });
+
+        it('should require a loaded template', () => {
+            expect(() => new DocxGenerator().inspect()).toThrow('No template loaded');
+        });
+    });
+
+    describe('Generation report', () => {
+        const createGenerator = async (strict: boolean = false): Promise<DocxGenerator> => {
+            const generator = new DocxGenerator({ strict });
+            await generator.loadTemplate(createTemplate(
+                para('Dear {{custmerName}}, {{total}}') +
+                para('{{logo}}') +
+                para('Photo: {{photo}}') +
+                para('Literal \\{{name}}')
+            ));
+            return generator
+                .setData({ customerName: 'Jane', total: 10 })
+                .addTable({ placeholder: 'itemsTable', headers: [{ name: 'Item', key: 'item' }], rows: [] })
+                .setImages([
+                    { placeholder: 'logo', buffer: PNG_1X1 },
+                    { placeholder: 'signature', buffer: PNG_1X1 },
+                    { placeholder: 'photo', path: './does-not-exist.png' }
+                ]);
+        };
+
+        it('should list unreplaced placeholders, unused data and missing or failed images', async () => {
+            const generator = await createGenerator();
+            const xml = readDocumentXml(await generator.generate());
+            const report = generator.getReport()!;
+
+            expect(xml).toContain('<w:drawing>');
+            expect(report.unreplaced.map(p => [p.name, p.part])).toEqual([['custmerName', 'word/document.xml']]);
+            expect(report.unusedData).toEqual(['customerName']);
+            expect(report.missingTables).toEqual(['itemsTable']);
+            expect(report.missingImages).toEqual(['signature']);
+            expect(report.failedImages).toHaveLength(1);
+            expect(report.failedImages[0].placeholder).toBe('photo');
+            expect(xml).toContain('Photo: </w:t>');
+            expect(xml).not.toContain('{{photo}}');
+        });
+
+        it('should return the report from save()', async () => {
+            const generator = await createGenerator();
+            const result = await generator.save(path.join(outputPath, 'report-output.docx'));
+
+            expect(result.success).toBe(true);
+            expect(result.output).toBe(path.join(outputPath, 'report-output.docx'));
+            expect(result.report!.unusedData).toEqual(['customerName']);
+        });
+
+        it('should throw a StrictModeError listing every problem in strict mode', async () => {
+            const generator = await createGenerator(true);
+            const error = await generator.generate().catch(e => e);
+
+            expect(error).toBeInstanceOf(StrictModeError);
+            expect(error.message).toContain('Unreplaced placeholder "custmerName" in word/document.xml');
+            expect(error.message).toContain('Unused data key "customerName"');
+            expect(error.message).toContain('Table placeholder "itemsTable" not found');
+            expect(error.message).toContain('Image placeholder "signature" not found');
+            expect(error.message).toContain('Image "photo" failed to load');
+            expect(error.report.unreplaced).toHaveLength(1);
+        });
+
+        it('should fill footnotes, endnotes and comments from the body data', async () => {
+            const zip = new AdmZip(createTemplate(para('{{name}}')));
+            const part = (tag: string, body: string) => Buffer.from(
+                `<w:${tag}s xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">` +
+                `<w:${tag} w:id="1">${body}</w:${tag}></w:${tag}s>`
+            );
+            zip.addFile('word/footnotes.xml', part('footnote', para('Source: {{source}}')));
+            zip.addFile('word/endnotes.xml', part('endnote', para('{{#if name}}By {{name}}{{/if}}')));
+            zip.addFile('word/comments.xml', part('comment', para('Check {{reviewr}}')));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.setData({ name: 'Jane', source: 'Annual report' });
+            const output = new AdmZip(await generator.generate());
+            const read = (name: string) => output.getEntry(name)!.getData().toString('utf8');
+
+            expect(read('word/footnotes.xml')).toContain('Source: Annual report');
+            expect(read('word/endnotes.xml')).toContain('By Jane');
+            expect(generator.getReport()!.unreplaced.map(p => [p.name, p.part])).toEqual([['reviewr', 'word/comments.xml']]);
+            expect(generator.getReport()!.unusedData).toEqual([]);
+        });
+
+        it('should not throw in strict mode when template and data match', async () => {
+            const generator = new DocxGenerator({ strict: true });
+            await generator.loadTemplate(createTemplate(
+                para('{{#items}}{{sku}} {{/items}}{{#if paid}}Paid{{/if}}{{name | upper}}')
+            ));
+            generator.setData({ items: [{ sku: 'A' }], paid: true, name: 'x' });
+
+            await expect(generator.generate()).resolves.toBeInstanceOf(Buffer);
+        });
+    });
+
+    describe('Rich text', () => {
+        it('should split the host run and inherit unset formatting', async () => {
+            const template = createTemplate(
+                '<w:p><w:r><w:rPr><w:i/><w:sz w:val="20"/></w:rPr><w:t xml:space="preserve">Summary: {{summary}}.</w:t></w:r></w:p>'
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator.setData({
+                summary: [
+                    { text: 'Total: ', bold: true },
+                    { text: '€1,200', color: 'C00000', underline: true }
+                ]
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain(
+                '<w:r><w:rPr><w:i/><w:sz w:val="20"/></w:rPr><w:t xml:space="preserve">Summary: </w:t></w:r>' +
+                '<w:r><w:rPr><w:b/><w:bCs/><w:i/><w:sz w:val="20"/></w:rPr><w:t xml:space="preserve">Total: </w:t></w:r>' +
+                '<w:r><w:rPr><w:i/><w:color w:val="C00000"/><w:sz w:val="20"/><w:u w:val="single"/></w:rPr><w:t>€1,200</w:t></w:r>' +
+                '<w:r><w:rPr><w:i/><w:sz w:val="20"/></w:rPr><w:t>.</w:t></w:r>'
+            );
+            expect(generator.getReport()!.unreplaced).toEqual([]);
+        });
+    });
+
+    describe('Multi-line values', () => {
+        it('should turn newlines into breaks and blank lines into paragraphs', async () => {
+            const template = createTemplate(
+                '<w:p><w:pPr><w:ind w:left="720"/></w:pPr>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Ship to: {{address}}</w:t></w:r></w:p>' +
+                para('Note:{{note}}')
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator.setData({
+                address: 'Jane Roe\n12 Main St\n\nAttn:\tReceiving',
+                note: '  indented'
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain(
+                '<w:p><w:pPr><w:ind w:left="720"/></w:pPr>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Ship to: </w:t></w:r>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t>Jane Roe</w:t><w:br/><w:t>12 Main St</w:t></w:r></w:p>' +
+                '<w:p><w:pPr><w:ind w:left="720"/></w:pPr>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t>Attn:</w:t><w:tab/><w:t>Receiving</w:t></w:r></w:p>'
+            );
+            expect(xml).toContain('<w:t xml:space="preserve">  indented</w:t>');
+        });
+    });
+
+    describe('HTML content', () => {
+        it('should convert block HTML into paragraphs, lists, tables, links and images', async () => {
+            const template = createTemplate(
+                '<w:p><w:pPr><w:jc w:val="both"/></w:pPr><w:r><w:t>{{description}}</w:t></w:r></w:p>' +
+                para('Summary: {{summary}}')
+            );
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(template);
+            generator.setData({
+                description: {
+                    html: '<h1>Widget</h1>' +
+                        '<p>The <b>best</b> widget. See <a href="https://example.com/widget">details</a>.</p>' +
+                        '<ul><li>Fast</li><li>Cheap</li></ul>' +
+                        '<table><tr><th>Size</th></tr><tr><td>Large</td></tr></table>' +
+                        `<p><img src="data:image/png;base64,${PNG_1X1.toString('base64')}" width="32" height="32"></p>`
+                },
+                summary: { html: '<i>Short</i> version' }
+            });
+
+            const output = await generator.generate();
+            const zip = new AdmZip(output);
+            const xml = readDocumentXml(output);
+            const rels = zip.getEntry('word/_rels/document.xml.rels')!.getData().toString('utf8');
+            const numbering = zip.getEntry('word/numbering.xml')!.getData().toString('utf8');
+            const contentTypes = zip.getEntry('[Content_Types].xml')!.getData().toString('utf8');
+
+            expect(xml).not.toContain('{{description}}');
+            expect(xml).toContain('<w:pPr><w:keepNext/><w:outlineLvl w:val="0"/></w:pPr>');
+            expect(xml).not.toContain('<w:pStyle');
+            expect(xml).toContain('<w:p><w:pPr><w:jc w:val="both"/></w:pPr><w:r><w:t xml:space="preserve">The </w:t></w:r>');
+            expect(xml).toMatch(/<w:hyperlink r:id="(rId\d+)" w:history="1">/);
+            expect(xml).toContain('<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+            expect(xml).toContain('<w:tblHeader/>');
+            expect(xml).toContain('<wp:extent cx="304800" cy="304800" />');
+            expect(xml).toContain('<w:r><w:rPr><w:i/><w:iCs/></w:rPr><w:t>Short</w:t></w:r>');
+
+            const linkId = xml.match(/<w:hyperlink r:id="(rId\d+)"/)![1];
+            expect(rels).toContain(`Id="${linkId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/widget" TargetMode="External"`);
+            expect(rels).toContain('relationships/numbering" Target="numbering.xml"');
+            expect(numbering).toContain('<w:num w:numId="1"><w:abstractNumId w:val="1"/></w:num>');
+            expect(contentTypes).toContain('PartName="/word/numbering.xml"');
+            expect(zip.getEntries().some(entry => /^word\/media\/image\d+\.png$/.test(entry.entryName))).toBe(true);
+        });
+
+        it('should report HTML images that fail to load', async () => {
+            const generator = new DocxGenerator({ allowImageSource: () => true });
+            await generator.loadTemplate(createTemplate(para('{{body}}')));
+            generator.setData({ body: { html: '<p>Logo <img src="./does-not-exist.png"></p>' } });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).toContain('>Logo </w:t>');
+            expect(xml).not.toContain('<w:drawing>');
+            expect(generator.getReport()!.failedImages.map(image => image.placeholder)).toEqual(['./does-not-exist.png']);
+        });
+
+        it('should only load HTML images from data: URIs unless the source is allowed', async () => {
+            const imagePath = path.join(outputPath, 'html-image.png');
+            fs.writeFileSync(imagePath, PNG_1X1);
+            const html = `<p><img src="${imagePath}"><img src="http://169.254.169.254/latest"></p>`;
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{body}}')));
+            generator.setData({ body: { html } });
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml).not.toContain('<w:drawing>');
+            expect(generator.getReport()!.blockedImages).toEqual([imagePath, 'http://169.254.169.254/latest']);
+            expect(generator.getReport()!.failedImages).toEqual([]);
+
+            const allowing = new DocxGenerator({ allowImageSource: source => source === imagePath });
+            await allowing.loadTemplate(createTemplate(para('{{body}}')));
+            allowing.setData({ body: { html } });
+            const allowedXml = readDocumentXml(await allowing.generate());
+
+            expect(allowedXml.match(/<w:drawing>/g)).toHaveLength(1);
+            expect(allowing.getReport()!.blockedImages).toEqual(['http://169.254.169.254/latest']);
+        });
+    });
+
+    describe('Markdown content', () => {
+        it('should render Markdown with the template heading styles and list definitions', async () => {
+            const zip = new AdmZip(createTemplate(para('{{notes}}') + para('Status: {{status}}')));
+            zip.addFile('word/styles.xml', Buffer.from(
+                '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+                '<w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="heading 2"/></w:style>' +
+                '<w:style w:type="character" w:styleId="Heading2Char"><w:name w:val="Heading 2 Char"/></w:style>' +
+                '</w:styles>'
+            ));
+            zip.addFile('word/numbering.xml', Buffer.from(
+                '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+                '<w:abstractNum w:abstractNumId="7"><w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/><w:lvlText w:val="-"/></w:lvl></w:abstractNum>' +
+                '<w:num w:numId="3"><w:abstractNumId w:val="7"/></w:num>' +
+                '</w:numbering>'
+            ));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.setData({
+                notes: { markdown: '## Next steps\n\n- Ship **v2**\n- Read [the guide](https://example.com/guide)\n\n| Task | Days |\n|---|--:|\n| QA | 3 |' },
+                status: { markdown: '*On track*' }
+            });
+
+            const output = await generator.generate();
+            const xml = readDocumentXml(output);
+            const numbering = new AdmZip(output).getEntry('word/numbering.xml')!.getData().toString('utf8');
+
+            expect(xml).toContain('<w:p><w:pPr><w:pStyle w:val="berschrift2"/></w:pPr><w:r><w:t>Next steps</w:t></w:r></w:p>');
+            expect(xml).toContain('<w:numPr><w:ilvl w:val="0"/><w:numId w:val="4"/></w:numPr>');
+            expect(xml).toContain('<w:r><w:rPr><w:b/><w:bCs/></w:rPr><w:t>v2</w:t></w:r>');
+            expect(xml).toMatch(/<w:hyperlink r:id="rId\d+" w:history="1">/);
+            expect(xml).toContain('<w:jc w:val="right"/></w:pPr><w:r><w:t>3</w:t></w:r>');
+            expect(xml).toContain('<w:t xml:space="preserve">Status: </w:t></w:r><w:r><w:rPr><w:i/><w:iCs/></w:rPr><w:t>On track</w:t></w:r>');
+            expect(numbering).toContain('<w:num w:numId="4"><w:abstractNumId w:val="7"/></w:num>');
+            expect(numbering.match(/<w:abstractNum /g)).toHaveLength(1);
+        });
+
+        it('should load Markdown images only from the sources HTML images may use', async () => {
+            const markdown = `![logo](data:image/png;base64,${PNG_1X1.toString('base64')}) ![secret](/etc/passwd)`;
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(para('{{notes}}')));
+            generator.setData({ notes: { markdown } });
+
+            const xml = readDocumentXml(await generator.generate());
+
+            expect(xml.match(/<w:drawing>/g)).toHaveLength(1);
+            expect(generator.getReport()!.blockedImages).toEqual(['/etc/passwd']);
+            expect(generator.getReport()!.failedImages).toEqual([]);
+        });
+    });
+
+    describe('Hyperlinks', () => {
+        it('should add links with relationships in the part that holds them', async () => {
+            const zip = new AdmZip(createTemplate(
+                para('Visit {{site}} or read the {{terms}}.') + para('Again: {{site}}')
+            ));
+            zip.addFile('word/header1.xml', Buffer.from(
+                '<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+                'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+                para('{{support}}') +
+                '</w:hdr>'
+            ));
+            zip.addFile('word/styles.xml', Buffer.from(
+                '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+                '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/></w:style>' +
+                '</w:styles>'
+            ));
+
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(zip.toBuffer());
+            generator.setData({
+                site: { link: 'https://example.com/?a=1&b=2', text: 'our site' },
+                terms: { link: '#terms', text: 'terms' },
+                support: { link: 'mailto:help@example.com' }
+            });
+
+            const output = await generator.generate();
+            const result = new AdmZip(output);
+            const xml = readDocumentXml(output);
+            const header = result.getEntry('word/header1.xml')!.getData().toString('utf8');
+            const rels = result.getEntry('word/_rels/document.xml.rels')!.getData().toString('utf8');
+            const headerRels = result.getEntry('word/_rels/header1.xml.rels')!.getData().toString('utf8');
+
+            const linkIds = [...xml.matchAll(/<w:hyperlink r:id="(rId\d+)"/g)].map(match => match[1]);
+            expect(linkIds).toHaveLength(2);
+            expect(linkIds[0]).toBe(linkIds[1]);
+            expect(xml).toContain('<w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t>our site</w:t></w:r></w:hyperlink>');
+            expect(xml).toContain('<w:hyperlink w:anchor="terms" w:history="1">');
+            expect(rels).toContain(`Id="${linkIds[0]}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" ` +
+                'Target="https://example.com/?a=1&amp;b=2" TargetMode="External"');
+            expect(rels.match(/relationships\/hyperlink/g)).toHaveLength(1);
+
+            const headerLinkId = header.match(/<w:hyperlink r:id="(rId\d+)"/)![1];
+            expect(header).toContain('<w:t>mailto:help@example.com</w:t>');
+            expect(headerRels).toContain(`Id="${headerLinkId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" ` +
+                'Target="mailto:help@example.com" TargetMode="External"');
+            expect(rels).not.toContain('mailto:');
+        });
+    });
+
+    describe('Template tables', () => {
+        const cell = (text: string, properties: string = ''): string =>
+            `<w:tc><w:tcPr><w:tcW w:w="3000" w:type="dxa"/>${properties}</w:tcPr>${para(text)}</w:tc>`;
+
+        const createTableTemplate = (): Buffer => createTemplate(
+            '<w:tbl><w:tblPr><w:tblStyle w:val="Invoice"/></w:tblPr>' +
+            '<w:tblGrid><w:gridCol w:w="3000"/><w:gridCol w:w="3000"/></w:tblGrid>' +
+            `<w:tr>${cell('Order {{orderNo}}', '<w:gridSpan w:val="2"/>')}</w:tr>` +
+            `<w:tr>${cell('Item')}${cell('Qty')}</w:tr>` +
+            `<w:tr>${cell('{{item.name}}{{#if item.backordered}} (backordered){{/if}}', '<w:shd w:val="clear" w:fill="F2F2F2"/>')}` +
+            `${cell('{{item.qty | number}} {{unit}}')}</w:tr>` +
+            `<w:tr>${cell('Total')}${cell('{{totalQty}}')}</w:tr>` +
+            '</w:tbl>' +
+            '<w:p/>'
+        );
+
+        it('should repeat the prototype row for each record and keep the rows around it', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTableTemplate());
+            generator
+                .setData({ orderNo: 'A-17', unit: 'pcs', totalQty: 1500 })
+                .addTable({
+                    placeholder: 'item',
+                    prototypeRow: true,
+                    rows: [
+                        { name: 'Widget', qty: 1200 },
+                        { name: 'Gadget', qty: 300, backordered: true }
+                    ]
+                });
+
+            const xml = readDocumentXml(await generator.generate());
+            const rows = xml.match(/<w:tr>[\s\S]*?<\/w:tr>/g)!;
+
+            expect(rows).toHaveLength(5);
+            expect(rows[0]).toContain('<w:gridSpan w:val="2"/>');
+            expect(rows[0]).toContain('Order A-17');
+            expect(rows[2]).toContain('<w:shd w:val="clear" w:fill="F2F2F2"/>');
+            expect(rows[2]).toContain('>Widget</w:t>');
+            expect(rows[2]).not.toContain('backordered');
+            expect(rows[2]).toContain('>1,200 pcs</w:t>');
+            expect(rows[3]).toContain('>Gadget (backordered)</w:t>');
+            expect(rows[3]).toContain('<w:shd w:val="clear" w:fill="F2F2F2"/>');
+            expect(rows[4]).toContain('>1500</w:t>');
+            expect(xml).toContain('<w:tblStyle w:val="Invoice"/>');
+            expect(generator.getReport()!.missingTables).toEqual([]);
+            expect(generator.getReport()!.unreplaced).toEqual([]);
+        });
+
+        it('should map array rows through header keys and drop the row when there are no records', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTableTemplate());
+            generator.addTable({
+                placeholder: '{{item}}',
+                prototypeRow: true,
+                headers: [{ name: 'Item', key: 'name' }, { name: 'Qty', key: 'qty' }],
+                rows: [['Widget', '7']]
+            });
+
+            const xml = readDocumentXml(await generator.generate());
+            expect(xml).toContain('>Widget</w:t>');
+            expect(xml).toContain('>7 {{unit}}</w:t>');
+
+            const emptyGenerator = new DocxGenerator();
+            await emptyGenerator.loadTemplate(createTableTemplate());
+            emptyGenerator.addTable({ placeholder: 'item', prototypeRow: true, rows: [] });
+            const emptyXml = readDocumentXml(await emptyGenerator.generate());
+            expect(emptyXml.match(/<w:tr>/g)).toHaveLength(3);
+        });
+
+        it('should remove a table left without rows when there are no records', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTemplate(
+                '<w:tbl><w:tblPr><w:tblStyle w:val="Invoice"/></w:tblPr>' +
+                `<w:tblGrid><w:gridCol w:w="3000"/></w:tblGrid><w:tr>${cell('{{item.name}}')}</w:tr></w:tbl>` +
+                para('After')
+            ));
+            generator.addTable({ placeholder: 'item', prototypeRow: true, rows: [] });
+
+            const xml = readDocumentXml(await generator.generate());
+            expect(xml).not.toContain('<w:tbl>');
+            expect(xml).not.toContain('Invoice');
+            expect(xml).toContain('>After</w:t>');
+        });
+
+        it('should list prototype row placeholders as table placeholders', async () => {
+            const generator = new DocxGenerator();
+            await generator.loadTemplate(createTableTemplate());
+            generator.addTable({ placeholder: 'item', prototypeRow: true, rows: [] });
+
+            const kinds = generator.inspect().placeholders
+                .filter(placeholder => placeholder.path.startsWith('item'))
+                .map(placeholder => placeholder.kind);
+
+            expect(kinds).toEqual(['table', 'condition', 'table']);
+        });
     });
 });
@@ -58,6 +58,108 @@ describe('Custom Table Styling', () => {
         expect(xml).toContain('<w:bottom w:w="200" w:type="dxa"/>');
     });
 
+    it('should align data cells per column, using a decimal tab stop for decimal alignment', () => {
+        const xml = generateTable(
+            [{ name: 'Name', width: 2000, align: 'right' }, { name: 'Amount', width: 2000, align: 'decimal' }],
+            [['A', '12.50']]
+        );
+
+        expect(xml).toContain('<w:jc w:val="right" />');
+        expect(xml).toContain('<w:tabs><w:tab w:val="decimal" w:pos="1400" /></w:tabs>');
+        expect(xml).toMatch(/<w:tab \/><w:t>12\.50<\/w:t>/);
+    });
+
+    it('should emit spans with widths summed over the covered columns', () => {
+        const xml = generateTable(
+            [{ name: 'A', width: 1000 }, { name: 'B', width: 2000 }],
+            [[{ text: 'Wide', colSpan: 2, vMerge: 'restart' }], [{ text: '', colSpan: 2, vMerge: 'continue' }]],
+            DEFAULT_TABLE_STYLE,
+            [[{ name: 'Group', colSpan: 2 }]]
+        ).replace(/\s+</g, '<');
+
+        expect(xml).toContain('<w:tblGrid><w:gridCol w:w="1000" /><w:gridCol w:w="2000" /></w:tblGrid>');
+        expect(xml).toContain('<w:tcW w:w="3000" w:type="dxa" /><w:gridSpan w:val="2" /><w:shd');
+        expect(xml).toContain('<w:tcW w:w="3000" w:type="dxa" /><w:gridSpan w:val="2" /><w:vMerge w:val="restart" /><w:tcMar>');
+        expect(xml).toContain('<w:gridSpan w:val="2" /><w:vMerge /><w:tcMar>');
+        expect(xml).not.toContain('<w:t>A</w:t>');
+    });
+
+    it('should shade every second data row when striping', () => {
+        const style = {
+            ...DEFAULT_TABLE_STYLE,
+            stripeBgColor: 'F2F2F2'
+        };
+        const xml = generateTable(headers, [...rows, ['Row 3 Col 1', 'Row 3 Col 2']], style);
+
+        const dataRows = xml.split('<w:tr>').slice(2);
+        expect(dataRows[0]).not.toContain('w:fill="F2F2F2"');
+        expect(dataRows[1]).toContain('<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2" />');
+        expect(dataRows[2]).not.toContain('w:fill="F2F2F2"');
+    });
+
+    it('should style cells over their column and row', () => {
+        const style = {
+            ...DEFAULT_TABLE_STYLE,
+            stripeBgColor: 'F2F2F2'
+        };
+        const xml = generateTable(
+            [{ name: 'Name', width: 2000, style: { bold: true } }, { name: 'Amount', width: 2000 }],
+            [['A', '1'], ['B', { text: '-2', style: { bgColor: 'FFC7CE', textColor: 'C00000', italic: true } }]],
+            style
+        ).replace(/\s+</g, '<');
+
+        expect(xml).toContain('<w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" /><w:b /><w:sz w:val="24" />');
+        expect(xml).toContain('<w:tcW w:w="2000" w:type="dxa" /><w:shd w:val="clear" w:color="auto" w:fill="FFC7CE" /><w:tcMar>');
+        expect(xml).toContain('<w:i /><w:color w:val="C00000" /><w:sz w:val="24" />');
+        expect(xml).toContain('<w:b /><w:sz w:val="24" /><w:szCs w:val="24" /></w:rPr><w:t>B</w:t>');
+        expect(xml.match(/w:fill="F2F2F2"/g)).toHaveLength(1);
+    });
+
+    it('should repeat header rows and keep data rows on one page when asked', () => {
+        const plain = generateTable(headers, rows);
+        expect(plain).not.toContain('<w:tblHeader />');
+        expect(plain).not.toContain('<w:cantSplit />');
+
+        const xml = generateTable(headers, rows, { ...DEFAULT_TABLE_STYLE, repeatHeader: true, cantSplit: true });
+        expect(xml.match(/<w:tblHeader \/>/g)).toHaveLength(1);
+        expect(xml.match(/<w:cantSplit \/>/g)).toHaveLength(2);
+    });
+
+    it('should make an auto-width table as wide as its columns', () => {
+        expect(generateTable(headers, rows)).toContain('<w:tblW w:w="5000" w:type="pct" />');
+        expect(generateTable(headers, rows, { ...DEFAULT_TABLE_STYLE, autoWidth: true })).toContain('<w:tblW w:w="3000" w:type="dxa" />');
+    });
+
+    it('should render cell content from the cell paragraph and end the cell with a paragraph', () => {
+        const widths: number[] = [];
+        const xml = generateTable(
+            [{ name: 'Content', width: 3000, align: 'center' }],
+            [
+                [{ text: '', content: (context, width) => { widths.push(width); return `<w:p>${context.paragraphProperties}</w:p>`; } }],
+                [{ text: '', content: () => '<w:tbl></w:tbl>' }]
+            ]
+        ).replace(/\s+</g, '<');
+
+        expect(widths).toEqual([2800]);
+        expect(xml).toContain('</w:tcPr><w:p><w:pPr><w:jc w:val="center" /><w:rPr>');
+        expect(xml).toContain('<w:tbl></w:tbl><w:p><w:pPr><w:jc w:val="center" />');
+    });
+
+    it('should write only the set properties over a table style', () => {
+        const xml = generateTable(headers, rows, {
+            styleId: 'GridTable4',
+            stripeBgColor: 'F2F2F2',
+            look: { firstRow: true, bandedRows: true }
+        }).replace(/\s+</g, '<');
+
+        expect(xml).toContain('<w:tblPr><w:tblStyle w:val="GridTable4" /><w:tblW w:w="5000" w:type="pct" /><w:tblLook ');
+        expect(xml).toContain('<w:tblLook w:val="0420" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1" />');
+        expect(xml).toContain('<w:tr><w:tc><w:tcPr><w:tcW w:w="1000" w:type="dxa" /></w:tcPr><w:p><w:r><w:t>Header 1</w:t>');
+        expect(xml).toContain('<w:p><w:r><w:t>Row 1 Col 1</w:t>');
+        expect(xml).toContain('w:fill="F2F2F2"');
+        expect(xml).not.toMatch(/<w:tblBorders>|<w:tcMar>|<w:tblLayout|<w:vAlign|<w:jc|<w:trPr>|<w:pPr>|<w:rPr>|<w:b \/>/);
+    });
+
     it('should apply custom border size', () => {
         const style = {
             ...DEFAULT_TABLE_STYLE,
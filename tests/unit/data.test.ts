@@ -0,0 +1,102 @@
+/**
+ * Unit tests for data utilities
+ */
+
+import { parsePath, resolvePath, valueToString, deepMerge, isPlainObject, isRichText, isLinkValue } from '../../src/utils/data';
+
+describe('Data Utilities', () => {
+    describe('parsePath', () => {
+        it('should split dot and index segments', () => {
+            expect(parsePath('order.lines[0].sku')).toEqual(['order', 'lines', '0', 'sku']);
+            expect(parsePath('name')).toEqual(['name']);
+        });
+    });
+
+    describe('resolvePath', () => {
+        const data = {
+            customer: { address: { city: 'Berlin' } },
+            lines: [{ sku: 'A-1' }, { sku: 'B-2' }],
+            'legacy.key': 'flat'
+        };
+
+        it('should resolve nested object paths', () => {
+            expect(resolvePath(data, 'customer.address.city')).toBe('Berlin');
+        });
+
+        it('should resolve array indexes', () => {
+            expect(resolvePath(data, 'lines[1].sku')).toBe('B-2');
+            expect(resolvePath(data, 'lines.0.sku')).toBe('A-1');
+        });
+
+        it('should prefer keys that contain dots', () => {
+            expect(resolvePath(data, 'legacy.key')).toBe('flat');
+        });
+
+        it('should return undefined for missing paths', () => {
+            expect(resolvePath(data, 'customer.phone')).toBeUndefined();
+            expect(resolvePath(data, 'lines[5].sku')).toBeUndefined();
+        });
+    });
+
+    describe('valueToString', () => {
+        it('should convert scalars', () => {
+            expect(valueToString(42)).toBe('42');
+            expect(valueToString(true)).toBe('true');
+            expect(valueToString(null)).toBe('');
+            expect(valueToString(undefined)).toBe('');
+        });
+
+        it('should format dates as YYYY-MM-DD', () => {
+            expect(valueToString(new Date(2026, 0, 9))).toBe('2026-01-09');
+        });
+
+        it('should join arrays', () => {
+            expect(valueToString(['a', 1])).toBe('a, 1');
+        });
+    });
+
+    describe('deepMerge', () => {
+        it('should merge nested objects', () => {
+            const result = deepMerge(
+                { company: { name: 'Acme', city: 'Berlin' } },
+                { company: { city: 'Paris' } }
+            );
+            expect(result).toEqual({ company: { name: 'Acme', city: 'Paris' } });
+        });
+
+        it('should replace arrays and scalars', () => {
+            expect(deepMerge({ list: ['a'], n: 1 }, { list: ['b'], n: 2 })).toEqual({ list: ['b'], n: 2 });
+        });
+    });
+
+    describe('isLinkValue', () => {
+        it('should accept a link with optional text only', () => {
+            expect(isLinkValue({ link: 'https://example.com' })).toBe(true);
+            expect(isLinkValue({ link: '#terms', text: 'Terms' })).toBe(true);
+            expect(isLinkValue({ link: 'https://example.com', title: 'Site' })).toBe(false);
+            expect(isLinkValue({ url: 'https://example.com' })).toBe(false);
+        });
+    });
+
+    describe('isRichText', () => {
+        it('should accept lists of text runs only', () => {
+            expect(isRichText([{ text: 'a', bold: true }, { text: 'b' }])).toBe(true);
+            expect(isRichText([])).toBe(false);
+            expect(isRichText([{ sku: 'A' }])).toBe(false);
+            expect(isRichText('text')).toBe(false);
+        });
+
+        it('should read as plain text', () => {
+            expect(valueToString([{ text: 'Total: ', bold: true }, { text: '5' }])).toBe('Total: 5');
+        });
+    });
+
+    describe('isPlainObject', () => {
+        it('should only accept plain objects', () => {
+            expect(isPlainObject({})).toBe(true);
+            expect(isPlainObject([])).toBe(false);
+            expect(isPlainObject(new Date())).toBe(false);
+            expect(isPlainObject(null)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for formatter utilities
+ */
+
+import {
+    parseExpression,
+    parseFormatters,
+    applyFormatters,
+    formatDate,
+    BUILT_IN_FORMATTERS
+} from '../../src/utils/format';
+
+describe('Format Utilities', () => {
+    describe('parseExpression', () => {
+        it('should parse a plain path', () => {
+            expect(parseExpression('customer.name')).toEqual({ path: 'customer.name', formatters: [] });
+        });
+
+        it('should parse formatters with arguments', () => {
+            expect(parseExpression('total | currency:"EUR":"de-DE" | upper')).toEqual({
+                path: 'total',
+                formatters: [
+                    { name: 'currency', args: ['EUR', 'de-DE'] },
+                    { name: 'upper', args: [] }
+                ]
+            });
+        });
+
+        it('should keep separators inside quotes', () => {
+            expect(parseExpression('due | date:"HH:mm | dd"').formatters[0].args).toEqual(['HH:mm | dd']);
+        });
+
+        it('should accept XML-escaped and smart quotes', () => {
+            expect(parseExpression('note | default:&quot;n/a&quot;').formatters[0].args).toEqual(['n/a']);
+            expect(parseExpression('note | default:“n/a”').formatters[0].args).toEqual(['n/a']);
+        });
+    });
+
+    describe('formatDate', () => {
+        it('should format date tokens', () => {
+            const date = new Date(2026, 0, 9, 14, 5, 7);
+            expect(formatDate(date, 'dd MMM yyyy')).toBe('09 Jan 2026');
+            expect(formatDate(date, 'EEEE, MMMM d')).toBe('Friday, January 9');
+            expect(formatDate(date, 'HH:mm:ss')).toBe('14:05:07');
+            expect(formatDate(date, 'h:mm a')).toBe('2:05 PM');
+        });
+    });
+
+    describe('BUILT_IN_FORMATTERS', () => {
+        it('should change case', () => {
+            expect(BUILT_IN_FORMATTERS.upper('acme')).toBe('ACME');
+            expect(BUILT_IN_FORMATTERS.lower('ACME')).toBe('acme');
+            expect(BUILT_IN_FORMATTERS.capitalize('jane roe')).toBe('Jane Roe');
+        });
+
+        it('should use a default for empty values', () => {
+            expect(BUILT_IN_FORMATTERS.default(undefined, 'n/a')).toBe('n/a');
+            expect(BUILT_IN_FORMATTERS.default('', 'n/a')).toBe('n/a');
+            expect(BUILT_IN_FORMATTERS.default('set', 'n/a')).toBe('set');
+        });
+
+        it('should format numbers, currencies and percentages', () => {
+            expect(BUILT_IN_FORMATTERS.number(1234.5, '2')).toBe('1,234.50');
+            expect(BUILT_IN_FORMATTERS.currency('1200', 'USD')).toBe('$1,200.00');
+            expect(BUILT_IN_FORMATTERS.percent(0.155, '1')).toBe('15.5%');
+        });
+
+        it('should leave non-numeric values unchanged', () => {
+            expect(BUILT_IN_FORMATTERS.currency('n/a', 'USD')).toBe('n/a');
+        });
+
+        it('should format dates from Date objects and strings', () => {
+            expect(BUILT_IN_FORMATTERS.date(new Date(2026, 2, 1), 'dd/MM/yyyy')).toBe('01/03/2026');
+            expect(BUILT_IN_FORMATTERS.date('2026-03-01T12:00:00', 'd MMM')).toBe('1 Mar');
+        });
+
+        it('should format date-only strings as local dates', () => {
+            const timeZone = process.env.TZ;
+            process.env.TZ = 'America/New_York';
+            try {
+                expect(BUILT_IN_FORMATTERS.date('2024-03-01', 'dd.MM.yyyy')).toBe('01.03.2024');
+                expect(BUILT_IN_FORMATTERS.date('2024-02-30', 'dd.MM.yyyy')).toBe('2024-02-30');
+            } finally {
+                process.env.TZ = timeZone;
+            }
+        });
+    });
+
+    describe('applyFormatters', () => {
+        it('should apply formatters in order', () => {
+            const calls = parseFormatters('default:"none" | upper');
+            expect(applyFormatters(undefined, calls, BUILT_IN_FORMATTERS)).toBe('NONE');
+        });
+
+        it('should throw for unknown formatters', () => {
+            expect(() => applyFormatters('x', [{ name: 'nope', args: [] }], BUILT_IN_FORMATTERS))
+                .toThrow('Unknown formatter: nope');
+        });
+    });
+});
@@ -98,6 +98,20 @@ describe('DocxGenerator', () => {
             });
             expect(result).toBe(generator);
         });
+
+        it('should require headers unless the table fills a prototype row', () => {
+            expect(() => generator.addTable({ placeholder: 'table', rows: [] }))
+                .toThrow('Table "table" needs headers');
+            expect(() => generator.addTable({ placeholder: 'item', prototypeRow: true, rows: [] }))
+                .not.toThrow();
+        });
+    });
+
+    describe('registerFormatter', () => {
+        it('should allow method chaining', () => {
+            const result = generator.registerFormatter('shout', value => `${value}!`);
+            expect(result).toBe(generator);
+        });
     });
 
     describe('reset', () => {
@@ -114,6 +128,12 @@ describe('DocxGenerator', () => {
         });
     });
 
+    describe('getReport', () => {
+        it('should return null before generation', () => {
+            expect(generator.getReport()).toBeNull();
+        });
+    });
+
     describe('fluent API', () => {
         it('should support complete method chaining', () => {
             const result = generator
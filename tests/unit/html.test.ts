@@ -0,0 +1,185 @@
+/**
+ * Unit tests for HTML conversion
+ */
+
+import {
+    parseHtml,
+    isInlineHtml,
+    getHtmlImageSources,
+    renderHtmlInline,
+    renderHtmlBlocks,
+    HtmlResources
+} from '../../src/utils/html';
+
+const context = { runProperties: '', paragraphProperties: '' };
+
+const createResources = (styles: Record<string, string> = {}): HtmlResources & { lists: boolean[] } => {
+    const lists: boolean[] = [];
+    return {
+        lists,
+        hyperlink: url => `rId-${url}`,
+        image: (source, width) => source === 'missing.png' ? null : `<w:drawing cx="${width}"/>`,
+        list: ordered => {
+            lists.push(ordered);
+            return lists.length;
+        },
+        style: (name, type = 'paragraph') => styles[`${type}:${name}`] ?? null
+    };
+};
+
+describe('HTML Utilities', () => {
+    describe('parseHtml', () => {
+        it('should build a tree with decoded text and attributes', () => {
+            expect(parseHtml('<p class="a">Fish &amp; chips<br>&#8364;5</p>')).toEqual([
+                {
+                    tag: 'p',
+                    attributes: { class: 'a' },
+                    children: ['Fish & chips', { tag: 'br', attributes: {}, children: [] }, '€5']
+                }
+            ]);
+        });
+
+        it('should close unclosed paragraphs, list items and cells', () => {
+            const nodes = parseHtml('<p>One<p>Two<ul><li>A<li>B</ul>');
+
+            expect(nodes.map(node => typeof node === 'string' ? node : node.tag)).toEqual(['p', 'p', 'ul']);
+        });
+    });
+
+    describe('isInlineHtml', () => {
+        it('should detect block content', () => {
+            expect(isInlineHtml(parseHtml('<b>Bold</b> and <a href="x">link</a>'))).toBe(true);
+            expect(isInlineHtml(parseHtml('<p>Para</p>'))).toBe(false);
+            expect(isInlineHtml(parseHtml('<span><ul><li>A</li></ul></span>'))).toBe(false);
+        });
+    });
+
+    describe('getHtmlImageSources', () => {
+        it('should list nested image sources', () => {
+            expect(getHtmlImageSources(parseHtml('<p><img src="a.png"><span><img src="b.png"/></span></p>')))
+                .toEqual(['a.png', 'b.png']);
+        });
+    });
+
+    describe('renderHtmlInline', () => {
+        it('should render formatting, styles and collapsed whitespace', () => {
+            const xml = renderHtmlInline(
+                parseHtml('  <strong>Bold</strong>   <span style="color: #c00; font-size: 14pt">red</span> '),
+                context,
+                createResources()
+            );
+
+            expect(xml).toBe(
+                '<w:r><w:rPr><w:b/><w:bCs/></w:rPr><w:t>Bold</w:t></w:r>' +
+                '<w:r><w:t xml:space="preserve"> </w:t></w:r>' +
+                '<w:r><w:rPr><w:color w:val="CC0000"/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr><w:t>red</w:t></w:r>'
+            );
+        });
+
+        it('should wrap links in hyperlinks and skip images that failed to load', () => {
+            const xml = renderHtmlInline(
+                parseHtml('<a href="https://example.com">Site</a><img src="missing.png"><img src="ok.png" width="10">'),
+                context,
+                createResources()
+            );
+
+            expect(xml).toBe(
+                '<w:hyperlink r:id="rId-https://example.com" w:history="1">' +
+                '<w:r><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr><w:t>Site</w:t></w:r>' +
+                '</w:hyperlink>' +
+                '<w:r><w:drawing cx="95250"/></w:r>'
+            );
+        });
+
+        it('should link to bookmarks and use the template Hyperlink style', () => {
+            const xml = renderHtmlInline(
+                parseHtml('<a href="#terms">Terms</a>'),
+                context,
+                createResources({ 'character:hyperlink': 'Hyperlink' })
+            );
+
+            expect(xml).toBe(
+                '<w:hyperlink w:anchor="terms" w:history="1">' +
+                '<w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t>Terms</w:t></w:r>' +
+                '</w:hyperlink>'
+            );
+        });
+    });
+
+    describe('renderHtmlBlocks', () => {
+        it('should render paragraphs with the host paragraph properties and headings without a style directly', () => {
+            const xml = renderHtmlBlocks(
+                parseHtml('<h2>Title</h2><p>Text</p>'),
+                { runProperties: '', paragraphProperties: '<w:pPr><w:jc w:val="both"/></w:pPr>' },
+                createResources()
+            );
+
+            expect(xml).toBe(
+                '<w:p><w:pPr><w:keepNext/><w:outlineLvl w:val="1"/></w:pPr>' +
+                '<w:r><w:rPr><w:b/><w:bCs/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr><w:t>Title</w:t></w:r></w:p>' +
+                '<w:p><w:pPr><w:jc w:val="both"/></w:pPr><w:r><w:t>Text</w:t></w:r></w:p>'
+            );
+        });
+
+        it('should render lists as numbered paragraphs with nested levels', () => {
+            const resources = createResources();
+            const xml = renderHtmlBlocks(
+                parseHtml('<ol><li>One<ul><li>Sub</li></ul></li><li><p>Two</p></li></ol>'),
+                context,
+                resources
+            );
+
+            expect(resources.lists).toEqual([true, false]);
+            expect(xml).toBe(
+                '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>One</w:t></w:r></w:p>' +
+                '<w:p><w:pPr><w:numPr><w:ilvl w:val="1"/><w:numId w:val="2"/></w:numPr></w:pPr><w:r><w:t>Sub</w:t></w:r></w:p>' +
+                '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>Two</w:t></w:r></w:p>'
+            );
+        });
+
+        it('should use the template styles for headings, list items and quotes', () => {
+            const resources = createResources({
+                'paragraph:heading 1': 'berschrift1',
+                'paragraph:list paragraph': 'Listenabsatz',
+                'paragraph:quote': 'Zitat'
+            });
+            const xml = renderHtmlBlocks(
+                parseHtml('<h1>Title</h1><ul><li>Item</li></ul><blockquote>Said</blockquote>'),
+                { runProperties: '<w:rPr><w:i/></w:rPr>', paragraphProperties: '' },
+                resources
+            );
+
+            expect(xml).toBe(
+                '<w:p><w:pPr><w:pStyle w:val="berschrift1"/></w:pPr><w:r><w:t>Title</w:t></w:r></w:p>' +
+                '<w:p><w:pPr><w:pStyle w:val="Listenabsatz"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>' +
+                '<w:r><w:rPr><w:i/></w:rPr><w:t>Item</w:t></w:r></w:p>' +
+                '<w:p><w:pPr><w:pStyle w:val="Zitat"/></w:pPr><w:r><w:rPr><w:i/></w:rPr><w:t>Said</w:t></w:r></w:p>'
+            );
+        });
+
+        it('should keep the spaces and line breaks of preformatted text', () => {
+            const xml = renderHtmlBlocks(parseHtml('<pre><code>if (a)\n  b();\n</code></pre>'), context, createResources());
+
+            expect(xml).toBe(
+                '<w:p><w:r><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:eastAsia="Courier New" w:cs="Courier New"/></w:rPr>' +
+                '<w:t>if (a)</w:t></w:r>' +
+                '<w:r><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:eastAsia="Courier New" w:cs="Courier New"/></w:rPr><w:br/></w:r>' +
+                '<w:r><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:eastAsia="Courier New" w:cs="Courier New"/></w:rPr>' +
+                '<w:t xml:space="preserve">  b();</w:t></w:r></w:p>'
+            );
+        });
+
+        it('should render tables with header rows, spans and a paragraph in every cell', () => {
+            const xml = renderHtmlBlocks(
+                parseHtml('<table><tr><th>A</th><th>B</th></tr><tr><td colspan="2"></td></tr></table>'),
+                context,
+                createResources()
+            );
+
+            expect(xml).toContain('<w:tblGrid><w:gridCol w:w="4500"/><w:gridCol w:w="4500"/></w:tblGrid>');
+            expect(xml).toContain('<w:tr><w:trPr><w:tblHeader/></w:trPr><w:tc><w:tcPr><w:tcW w:w="4500" w:type="dxa"/></w:tcPr>' +
+                '<w:p><w:r><w:rPr><w:b/><w:bCs/></w:rPr><w:t>A</w:t></w:r></w:p></w:tc>');
+            expect(xml).toContain('<w:tc><w:tcPr><w:tcW w:w="9000" w:type="dxa"/><w:gridSpan w:val="2"/></w:tcPr><w:p/></w:tc>');
+        });
+    });
+});
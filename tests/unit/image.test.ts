@@ -0,0 +1,163 @@
+import { readImageDimensions } from '../../src/utils/dimensions';
+import {
+    detectImageExtension,
+    fitImageSize,
+    parseImageSize,
+    replacePictures,
+    fitPictureFrame,
+    swapPicture
+} from '../../src/utils/image';
+import { generateInlineImage } from '../../src/utils/constants';
+
+/**
+ * Build a PNG header with an IHDR chunk and, optionally, a pHYs chunk in pixels per meter
+ */
+const png = (width: number, height: number, pixelsPerMeter?: number): Buffer => {
+    const chunk = (type: string, data: Buffer) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length);
+        return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+    };
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(width, 0);
+    ihdr.writeUInt32BE(height, 4);
+    const chunks = [chunk('IHDR', ihdr)];
+    if (pixelsPerMeter) {
+        const phys = Buffer.alloc(9);
+        phys.writeUInt32BE(pixelsPerMeter, 0);
+        phys.writeUInt32BE(pixelsPerMeter, 4);
+        phys[8] = 1;
+        chunks.push(chunk('pHYs', phys));
+    }
+    return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ...chunks, chunk('IEND', Buffer.alloc(0))]);
+};
+
+/**
+ * Build a JPEG header with a JFIF segment at the given DPI, an EXIF orientation and a baseline frame
+ */
+const jpeg = (width: number, height: number, dpi: number, orientation: number): Buffer => {
+    const jfif = Buffer.from([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x01, dpi >> 8, dpi & 0xff, dpi >> 8, dpi & 0xff, 0x00, 0x00]);
+    const exif = Buffer.from([
+        0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+        0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+        0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+        0x00, 0x00, 0x00, 0x00
+    ]);
+    const frame = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03]);
+    return Buffer.concat([Buffer.from([0xff, 0xd8]), jfif, exif, frame, Buffer.alloc(9)]);
+};
+
+describe('Image Utils', () => {
+    describe('readImageDimensions', () => {
+        it('should read the size and resolution of a PNG', () => {
+            expect(readImageDimensions(png(400, 200), 'png')).toEqual({ width: 400, height: 200 });
+
+            const dimensions = readImageDimensions(png(300, 150, 11811), 'png')!;
+            expect(dimensions.dpiX).toBeCloseTo(300, 0);
+            expect(dimensions.dpiY).toBeCloseTo(300, 0);
+        });
+
+        it('should read a JPEG frame and swap its sides for quarter-turn EXIF orientations', () => {
+            const upright = jpeg(640, 480, 72, 1);
+            expect(detectImageExtension(upright)).toBe('jpg');
+            expect(readImageDimensions(upright, 'jpg')).toEqual({ width: 640, height: 480, dpiX: 72, dpiY: 72 });
+            expect(readImageDimensions(jpeg(640, 480, 72, 6), 'jpg')).toEqual({ width: 480, height: 640, dpiX: 72, dpiY: 72 });
+        });
+
+        it('should read GIF, BMP and WebP headers', () => {
+            const gif = Buffer.from('GIF89a\x20\x00\x10\x00', 'latin1');
+            expect(readImageDimensions(gif, 'gif')).toEqual({ width: 32, height: 16 });
+
+            const bmp = Buffer.alloc(54);
+            bmp.write('BM', 0, 'ascii');
+            bmp.writeUInt32LE(40, 14);
+            bmp.writeInt32LE(120, 18);
+            bmp.writeInt32LE(-60, 22);
+            expect(readImageDimensions(bmp, 'bmp')).toEqual({ width: 120, height: 60 });
+
+            const webp = (chunk: string, data: number[]) => Buffer.concat([
+                Buffer.from(`RIFF\0\0\0\0WEBP${chunk}\0\0\0\0`, 'ascii'),
+                Buffer.from(data),
+                Buffer.alloc(10)
+            ]);
+            expect(readImageDimensions(webp('VP8X', [0, 0, 0, 0, 199, 0, 0, 99, 0, 0]), 'webp')).toEqual({ width: 200, height: 100 });
+            expect(readImageDimensions(webp('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, 200, 0, 100, 0]), 'webp')).toEqual({ width: 200, height: 100 });
+            expect(readImageDimensions(webp('VP8L', [0x2f, 0xc7, 0xc0, 0x18, 0x00]), 'webp')).toEqual({ width: 200, height: 100 });
+        });
+
+        it('should return null for unknown formats and truncated headers', () => {
+            expect(readImageDimensions(Buffer.from('not an image'), null)).toBeNull();
+            expect(readImageDimensions(png(400, 200).subarray(0, 20), 'png')).toBeNull();
+        });
+    });
+
+    describe('parseImageSize', () => {
+        it('should convert units to EMUs', () => {
+            expect(parseImageSize(914400)).toBe(914400);
+            expect(parseImageSize('2.5cm')).toBe(900000);
+            expect(parseImageSize('10mm')).toBe(360000);
+            expect(parseImageSize('2in')).toBe(1828800);
+            expect(parseImageSize('72pt')).toBe(914400);
+            expect(parseImageSize('300px')).toBe(2857500);
+            expect(parseImageSize('-1cm')).toBe(-360000);
+        });
+
+        it('should reject sizes without a known unit', () => {
+            expect(() => parseImageSize('5 furlongs' as never)).toThrow('Invalid image size "5 furlongs"');
+        });
+    });
+
+    describe('fitImageSize', () => {
+        const landscape = { width: 400, height: 200 };
+
+        it('should keep the aspect ratio when only one side is given', () => {
+            expect(fitImageSize(landscape, { width: '2in' })).toEqual({ width: 1828800, height: 914400 });
+            expect(fitImageSize(landscape, { height: '1in' })).toEqual({ width: 1828800, height: 914400 });
+            expect(fitImageSize(landscape, { width: '1in', height: '1in' })).toEqual({ width: 914400, height: 914400 });
+        });
+
+        it('should use the size from the pixels and DPI when no side is given', () => {
+            expect(fitImageSize(landscape, {})).toEqual({ width: 3810000, height: 1905000 });
+            expect(fitImageSize({ ...landscape, dpiX: 200, dpiY: 200 }, {})).toEqual({ width: 1828800, height: 914400 });
+        });
+
+        it('should scale down to fit within the largest width and height', () => {
+            expect(fitImageSize(landscape, { maxWidth: '2in', maxHeight: '2in' })).toEqual({ width: 1828800, height: 914400 });
+            expect(fitImageSize(landscape, { width: '4in', maxHeight: '1in' })).toEqual({ width: 1828800, height: 914400 });
+            expect(fitImageSize(landscape, { maxWidth: '10in' })).toEqual({ width: 3810000, height: 1905000 });
+        });
+
+        it('should make images of unknown size square', () => {
+            expect(fitImageSize(null, {})).toEqual({ width: 914400, height: 914400 });
+            expect(fitImageSize(null, { width: 457200 })).toEqual({ width: 457200, height: 457200 });
+        });
+    });
+
+    describe('template pictures', () => {
+        const picture = (label: string) => generateInlineImage('rId5', 1828800, 1828800, 'Picture 1')
+            .replace('<wp:docPr id="1" name="Picture 1" />', `<wp:docPr id="1" name="Picture 1" descr="${label}" />`);
+
+        it('should replace the pictures whose alt text, title or name matches', () => {
+            const xml = picture('logo') + picture('photo');
+            const result = replacePictures(xml, label => label === 'logo', drawing => swapPicture(drawing, 'rId9'));
+
+            expect(result.match(/r:embed="rId9"/g)).toHaveLength(1);
+            expect(result.match(/r:embed="rId5"/g)).toHaveLength(1);
+            expect(replacePictures(xml, label => label === 'Picture 1', () => '')).toBe('');
+        });
+
+        it('should fit an image in the frame by its shown aspect ratio and resize the frame', () => {
+            const drawing = picture('logo');
+            const size = fitPictureFrame(drawing, { width: 400, height: 200 })!;
+            expect(size).toEqual({ width: 1828800, height: 914400 });
+
+            // Cropping half the width off leaves a square
+            const cropped = drawing.replace('<a:stretch>', '<a:srcRect l="25000" r="25000" /><a:stretch>');
+            expect(fitPictureFrame(cropped, { width: 400, height: 200 })).toEqual({ width: 1828800, height: 1828800 });
+
+            const swapped = swapPicture(drawing, 'rId9', size);
+            expect(swapped).toContain('<wp:extent cx="1828800" cy="914400" />');
+            expect(swapped).toContain('<a:ext cx="1828800" cy="914400" />');
+        });
+    });
+});
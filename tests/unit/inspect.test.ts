@@ -0,0 +1,77 @@
+/**
+ * Unit tests for template inspection
+ */
+
+import { inspectPart } from '../../src/utils/inspect';
+
+const para = (...runs: string[]): string =>
+    `<w:p>${runs.map(text => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`).join('')}</w:p>`;
+
+describe('Inspect Utilities', () => {
+    describe('inspectPart', () => {
+        it('should list text placeholders with their path and location', () => {
+            const xml = para('Dear {{customer.name | upper}},') + para('Total: {{total}}');
+
+            expect(inspectPart(xml, 'word/document.xml')).toEqual([
+                {
+                    name: 'customer.name | upper',
+                    path: 'customer.name',
+                    kind: 'text',
+                    part: 'word/document.xml',
+                    paragraph: 0,
+                    inTable: false,
+                    split: false
+                },
+                {
+                    name: 'total',
+                    path: 'total',
+                    kind: 'text',
+                    part: 'word/document.xml',
+                    paragraph: 1,
+                    inTable: false,
+                    split: false
+                }
+            ]);
+        });
+
+        it('should flag placeholders split across runs', () => {
+            const [info] = inspectPart(para('Dear {{cust', 'omer}}'), 'word/document.xml');
+
+            expect(info.name).toBe('customer');
+            expect(info.split).toBe(true);
+        });
+
+        it('should classify loops, conditions, tables and images', () => {
+            const xml = para('{{#items}}{{sku}}{{/items}}') +
+                para('{{#if paid}}Paid{{else}}Due{{/if}}') +
+                para('{{itemsTable}}') +
+                para('{{logo}}');
+
+            const result = inspectPart(xml, 'word/document.xml', { tables: ['itemsTable'], images: ['logo'] });
+
+            expect(result.map(p => [p.kind, p.path])).toEqual([
+                ['loop', 'items'],
+                ['text', 'sku'],
+                ['condition', 'paid'],
+                ['table', 'itemsTable'],
+                ['image', 'logo']
+            ]);
+        });
+
+        it('should report table cells and raw names', () => {
+            const xml = `<w:tbl><w:tr><w:tc>${para('{{a}}')}</w:tc></w:tr></w:tbl>` + para('company');
+
+            const result = inspectPart(xml, 'word/header1.xml', { rawNames: ['company'] });
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toMatchObject({ path: 'a', inTable: true, part: 'word/header1.xml' });
+            expect(result[1]).toMatchObject({ path: 'company', kind: 'text', inTable: false });
+        });
+
+        it('should honor custom delimiters', () => {
+            const result = inspectPart(para('${name} {{other}}'), 'word/document.xml', { delimiters: ['${', '}'] });
+
+            expect(result.map(p => p.path)).toEqual(['name']);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for Markdown parsing
+ */
+
+import { parseMarkdown } from '../../src/utils/markdown';
+import { HtmlNode } from '../../src/utils/html';
+
+/**
+ * Write nodes back as compact HTML to keep expectations readable
+ */
+const toHtml = (nodes: HtmlNode[]): string => nodes.map(node => {
+    if (typeof node === 'string') return node;
+    const attributes = Object.entries(node.attributes).map(([name, value]) => ` ${name}="${value}"`).join('');
+    return `<${node.tag}${attributes}>${toHtml(node.children)}</${node.tag}>`;
+}).join('');
+
+describe('Markdown Utilities', () => {
+    describe('parseMarkdown', () => {
+        it('should return a single paragraph as inline content', () => {
+            expect(toHtml(parseMarkdown('**Total:** 42, *net* of `tax` and ~~fees~~ for snake_case_id'))).toBe(
+                '<strong>Total:</strong> 42, <em>net</em> of <code>tax</code> and <del>fees</del> for snake_case_id'
+            );
+        });
+
+        it('should parse nested and combined emphasis and escapes', () => {
+            expect(toHtml(parseMarkdown('***Both*** and __strong *with em*__ \\*not em\\*'))).toBe(
+                '<em><strong>Both</strong></em> and <strong>strong <em>with em</em></strong> *not em*'
+            );
+        });
+
+        it('should parse links, autolinks, images and hard breaks', () => {
+            expect(toHtml(parseMarkdown('See [the **docs**](https://example.com "Docs") or <https://x.org>  \n![Logo](logo.png)'))).toBe(
+                'See <a href="https://example.com">the <strong>docs</strong></a> or <a href="https://x.org">https://x.org</a>' +
+                '<br></br><img src="logo.png" alt="Logo"></img>'
+            );
+        });
+
+        it('should parse headings, paragraphs, rules and block quotes', () => {
+            expect(toHtml(parseMarkdown('# Title #\n\nFirst\nline\n\n---\n> Quoted\n> text'))).toBe(
+                '<h1>Title</h1><p>First\nline</p><hr></hr><blockquote><p>Quoted\ntext</p></blockquote>'
+            );
+        });
+
+        it('should parse fenced code without inline formatting', () => {
+            expect(toHtml(parseMarkdown('```ts\nconst a = **b**;\n  return a;\n```'))).toBe(
+                '<pre><code class="language-ts">const a = **b**;\n  return a;</code></pre>'
+            );
+        });
+
+        it('should nest lists by indentation and keep loose items together', () => {
+            expect(toHtml(parseMarkdown('- A\n  - A.1\n- B\n\n1. One\n\n   More\n2. Two'))).toBe(
+                '<ul><li><p>A</p><ul><li><p>A.1</p></li></ul></li><li><p>B</p></li></ul>' +
+                '<ol><li><p>One</p><p>More</p></li><li><p>Two</p></li></ol>'
+            );
+        });
+
+        it('should parse tables with alignment, escaped pipes and missing cells', () => {
+            expect(toHtml(parseMarkdown('| Item | Price |\n|:-----|------:|\n| A \\| B | 5 |\n| C |'))).toBe(
+                '<table><thead><tr><th align="left">Item</th><th align="right">Price</th></tr></thead>' +
+                '<tbody><tr><td align="left">A | B</td><td align="right">5</td></tr>' +
+                '<tr><td align="left">C</td><td align="right"></td></tr></tbody></table>'
+            );
+        });
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for rich text rendering
+ */
+
+import { buildRunProperties, renderRichText, needsRunRendering } from '../../src/utils/richtext';
+
+describe('Rich Text Utilities', () => {
+    describe('buildRunProperties', () => {
+        it('should keep inherited properties and add new ones in schema order', () => {
+            const base = '<w:rPr><w:rFonts w:ascii="Arial"/><w:sz w:val="20"/></w:rPr>';
+
+            expect(buildRunProperties(base, { bold: true, underline: true })).toBe(
+                '<w:rPr><w:rFonts w:ascii="Arial"/><w:b/><w:bCs/><w:sz w:val="20"/><w:u w:val="single"/></w:rPr>'
+            );
+        });
+
+        it('should override inherited properties', () => {
+            const base = '<w:rPr><w:b/><w:color w:val="000000"/></w:rPr>';
+
+            expect(buildRunProperties(base, { bold: false, color: '#C00000' })).toBe(
+                '<w:rPr><w:b w:val="0"/><w:bCs w:val="0"/><w:color w:val="C00000"/></w:rPr>'
+            );
+        });
+
+        it('should set font, size, highlight, strike and vertical alignment', () => {
+            expect(buildRunProperties('', {
+                font: 'Courier New',
+                size: 18,
+                highlight: 'yellow',
+                strike: true,
+                superscript: true
+            })).toBe(
+                '<w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:eastAsia="Courier New" w:cs="Courier New"/>' +
+                '<w:strike/><w:sz w:val="18"/><w:szCs w:val="18"/><w:highlight w:val="yellow"/>' +
+                '<w:vertAlign w:val="superscript"/></w:rPr>'
+            );
+        });
+
+        it('should return an empty string when there is nothing to set', () => {
+            expect(buildRunProperties('', {})).toBe('');
+            expect(buildRunProperties('<w:rPr><w:vertAlign w:val="subscript"/></w:rPr>', { subscript: false })).toBe('');
+        });
+    });
+
+    describe('renderRichText', () => {
+        it('should render one run per piece of text and escape it', () => {
+            const context = { runProperties: '<w:rPr><w:i/></w:rPr>', paragraphProperties: '' };
+
+            expect(renderRichText([{ text: 'Total: ', bold: true }, { text: 'A & B' }, { text: '' }], context)).toBe(
+                '<w:r><w:rPr><w:b/><w:bCs/><w:i/></w:rPr><w:t xml:space="preserve">Total: </w:t></w:r>' +
+                '<w:r><w:rPr><w:i/></w:rPr><w:t>A &amp; B</w:t></w:r>'
+            );
+        });
+
+        it('should turn newlines into breaks and tabs into tab characters', () => {
+            const context = { runProperties: '', paragraphProperties: '' };
+
+            expect(renderRichText([{ text: '12 Main St\nSpringfield\tUSA' }], context)).toBe(
+                '<w:r><w:t>12 Main St</w:t><w:br/><w:t>Springfield</w:t><w:tab/><w:t>USA</w:t></w:r>'
+            );
+        });
+
+        it('should start a new paragraph with the same properties at blank lines', () => {
+            const context = {
+                runProperties: '<w:rPr><w:b/></w:rPr>',
+                paragraphProperties: '<w:pPr><w:jc w:val="center"/><w:sectPr><w:pgSz/></w:sectPr></w:pPr>'
+            };
+
+            expect(renderRichText([{ text: 'First\r\n\r\nSecond' }], context)).toBe(
+                '<w:r><w:rPr><w:b/></w:rPr><w:t>First</w:t></w:r>' +
+                '</w:p><w:p><w:pPr><w:jc w:val="center"/></w:pPr>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t>Second</w:t></w:r>'
+            );
+        });
+
+        it('should keep blank lines as breaks when the run can\'t split its paragraph', () => {
+            const context = { runProperties: '<w:rPr><w:b/></w:rPr>', paragraphProperties: '', wrapped: true };
+
+            expect(renderRichText([{ text: 'First\n\nSecond' }], context)).toBe(
+                '<w:r><w:rPr><w:b/></w:rPr><w:t>First</w:t></w:r>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:br/><w:br/></w:r>' +
+                '<w:r><w:rPr><w:b/></w:rPr><w:t>Second</w:t></w:r>'
+            );
+        });
+    });
+
+    describe('needsRunRendering', () => {
+        it('should detect breaks, tabs and edge spaces', () => {
+            expect(needsRunRendering('a\nb')).toBe(true);
+            expect(needsRunRendering('a\tb')).toBe(true);
+            expect(needsRunRendering(' a')).toBe(true);
+            expect(needsRunRendering('a b')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for run-level utilities
+ */
+
+import { normalizeRuns, replaceInRuns, replaceParagraph, textElement } from '../../src/utils/runs';
+
+const BOLD = '<w:rPr><w:b/></w:rPr>';
+const ITALIC = '<w:rPr><w:i/></w:rPr>';
+
+describe('Run Utilities', () => {
+    describe('textElement', () => {
+        it('should preserve leading and trailing spaces', () => {
+            expect(textElement(' a ')).toBe('<w:t xml:space="preserve"> a </w:t>');
+            expect(textElement('a')).toBe('<w:t>a</w:t>');
+            expect(textElement('')).toBe('');
+        });
+    });
+
+    describe('normalizeRuns', () => {
+        it('should merge a placeholder split across runs into the first run', () => {
+            const xml = '<w:p>' +
+                `<w:r>${BOLD}<w:t xml:space="preserve">Dear {{cust</w:t></w:r>` +
+                '<w:proofErr w:type="spellStart"/>' +
+                `<w:r>${ITALIC}<w:t>omer</w:t></w:r>` +
+                '<w:proofErr w:type="spellEnd"/>' +
+                `<w:r>${ITALIC}<w:t>Name}},</w:t></w:r>` +
+                '</w:p>';
+
+            expect(normalizeRuns(xml)).toBe('<w:p>' +
+                `<w:r>${BOLD}<w:t>Dear {{customerName}}</w:t></w:r>` +
+                '<w:proofErr w:type="spellStart"/>' +
+                '<w:proofErr w:type="spellEnd"/>' +
+                `<w:r>${ITALIC}<w:t>,</w:t></w:r>` +
+                '</w:p>');
+        });
+
+        it('should keep bookmarks between the pieces', () => {
+            const xml = '<w:p><w:r><w:t>{{na</w:t></w:r><w:bookmarkStart w:id="0" w:name="x"/>' +
+                '<w:r><w:t>me}}</w:t></w:r><w:bookmarkEnd w:id="0"/></w:p>';
+
+            expect(normalizeRuns(xml)).toBe('<w:p><w:r><w:t>{{name}}</w:t></w:r>' +
+                '<w:bookmarkStart w:id="0" w:name="x"/><w:bookmarkEnd w:id="0"/></w:p>');
+        });
+
+        it('should leave unsplit placeholders and other text untouched', () => {
+            const xml = '<w:p><w:r><w:t>{{a}} and</w:t></w:r><w:r><w:t> text</w:t></w:r></w:p>';
+            expect(normalizeRuns(xml)).toBe(xml);
+        });
+
+        it('should not join text across paragraphs', () => {
+            const xml = '<w:p><w:r><w:t>{{a</w:t></w:r></w:p><w:p><w:r><w:t>}}</w:t></w:r></w:p>';
+            expect(normalizeRuns(xml)).toBe(xml);
+        });
+    });
+
+    describe('replaceInRuns', () => {
+        it('should split the host run and keep its formatting', () => {
+            const xml = `<w:p><w:r>${BOLD}<w:t xml:space="preserve">Logo: {{logo}} here</w:t></w:r></w:p>`;
+            const result = replaceInRuns(xml, 'logo', context => `<w:r>${context.runProperties}<w:drawing/></w:r>`);
+
+            expect(result).toBe('<w:p>' +
+                `<w:r>${BOLD}<w:t xml:space="preserve">Logo: </w:t></w:r>` +
+                `<w:r>${BOLD}<w:drawing/></w:r>` +
+                `<w:r>${BOLD}<w:t xml:space="preserve"> here</w:t></w:r>` +
+                '</w:p>');
+        });
+
+        it('should match a raw placeholder filling a whole text node', () => {
+            const xml = '<w:p><w:r><w:t>logo</w:t></w:r><w:r><w:t>logos</w:t></w:r></w:p>';
+            const result = replaceInRuns(xml, 'logo', () => '<w:r><w:drawing/></w:r>');
+            expect(result).toBe('<w:p><w:r><w:drawing/></w:r><w:r><w:t>logos</w:t></w:r></w:p>');
+        });
+
+        it('should pass paragraph properties to the renderer', () => {
+            const xml = '<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:t>{{x}}</w:t></w:r></w:p>';
+            let captured = '';
+            replaceInRuns(xml, 'x', context => {
+                captured = context.paragraphProperties;
+                return '';
+            });
+            expect(captured).toBe('<w:pPr><w:jc w:val="center"/></w:pPr>');
+        });
+
+        it('should tell the renderer whether the run is wrapped in its paragraph', () => {
+            const wrapped: boolean[] = [];
+            const xml = '<w:p><w:r><w:t>{{x}}</w:t></w:r><w:hyperlink r:id="rId1"><w:r><w:t>{{x}}</w:t></w:r></w:hyperlink>' +
+                '<w:sdt><w:sdtContent><w:r><w:t>{{x}}</w:t></w:r></w:sdtContent></w:sdt></w:p>';
+            replaceInRuns(xml, 'x', context => {
+                wrapped.push(!!context.wrapped);
+                return '';
+            });
+            expect(wrapped).toEqual([false, true, true]);
+        });
+    });
+
+    describe('replaceParagraph', () => {
+        it('should replace the whole paragraph', () => {
+            const xml = '<w:body><w:p><w:r><w:t>{{table}}</w:t></w:r></w:p></w:body>';
+            expect(replaceParagraph(xml, 'table', '<w:tbl/>')).toBe('<w:body><w:tbl/></w:body>');
+        });
+
+        it('should keep a closing paragraph in table cells', () => {
+            const xml = '<w:tc><w:p><w:r><w:t>{{table}}</w:t></w:r></w:p></w:tc>';
+            expect(replaceParagraph(xml, 'table', '<w:tbl/>')).toBe('<w:tc><w:tbl/><w:p/></w:tc>');
+        });
+    });
+});
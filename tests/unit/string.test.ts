@@ -11,7 +11,12 @@ import {
     fixDoubleEscaping,
     stripHtml,
     generateImageId,
-    extractPlaceholders
+    extractPlaceholders,
+    getPlaceholderName,
+    containsPlaceholder,
+    maskEscapedDelimiters,
+    unmaskEscapedDelimiters,
+    validateDelimiters
 } from '../../src/utils/string';
 
 describe('String Utilities', () => {
@@ -55,6 +60,15 @@ describe('String Utilities', () => {
             const result = replacePlaceholder('{{content}}', 'content', 'A & B');
             expect(result).toBe('A &amp; B');
         });
+
+        it('should use custom delimiters', () => {
+            expect(replacePlaceholder('Hi [[name]] {{name}}', 'name', 'Jo', ['[[', ']]'])).toBe('Hi Jo {{name}}');
+        });
+
+        it('should not match unrelated text that only resembles the key', () => {
+            const content = '<w:t>Paid</w:t><w:t>pa-id</w:t>';
+            expect(replacePlaceholder(content, 'paid', 'yes')).toBe(content);
+        });
     });
 
     describe('escapeForXml', () => {
@@ -123,5 +137,41 @@ describe('String Utilities', () => {
         it('should return empty array if no placeholders', () => {
             expect(extractPlaceholders('No placeholders here')).toEqual([]);
         });
+
+        it('should extract placeholders with custom delimiters', () => {
+            expect(extractPlaceholders('${a} and ${b.c} {{d}}', ['${', '}'])).toEqual(['a', 'b.c']);
+            expect(extractPlaceholders('[[lines[0].sku]]', ['[[', ']]'])).toEqual(['lines[0].sku']);
+        });
+    });
+
+    describe('getPlaceholderName', () => {
+        it('should strip surrounding braces', () => {
+            expect(getPlaceholderName('{{logo}}')).toBe('logo');
+            expect(getPlaceholderName('logo')).toBe('logo');
+        });
+    });
+
+    describe('containsPlaceholder', () => {
+        it('should detect placeholders with the given delimiters', () => {
+            expect(containsPlaceholder('a {{x}}', ['x'])).toBe(true);
+            expect(containsPlaceholder('a {{x}}', ['x'], ['[[', ']]'])).toBe(false);
+            expect(containsPlaceholder('a [[x]]', ['x'], ['[[', ']]'])).toBe(true);
+        });
+    });
+
+    describe('escaped delimiters', () => {
+        it('should hide escaped delimiters from placeholder matching', () => {
+            const masked = maskEscapedDelimiters('\\{{literal\\}} {{name}}');
+            expect(extractPlaceholders(masked)).toEqual(['name']);
+            expect(unmaskEscapedDelimiters(masked)).toBe('{{literal}} {{name}}');
+        });
+    });
+
+    describe('validateDelimiters', () => {
+        it('should reject empty or invalid delimiters', () => {
+            expect(() => validateDelimiters(['', '}}'])).toThrow('Delimiters');
+            expect(() => validateDelimiters(['<%', '%>'])).toThrow('Delimiters');
+            expect(() => validateDelimiters(['${', '}'])).not.toThrow();
+        });
     });
 });
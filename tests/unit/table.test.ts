@@ -0,0 +1,157 @@
+/**
+ * Unit tests for template table utilities
+ */
+
+import { findPrototypeRows, layoutRows, isTableCell, groupRows, aggregate, fitColumnWidths,
+    isCellImage, isCellParagraphs, isCellTable } from '../../src/utils/table';
+
+const row = (text: string): string => `<w:tr><w:tc><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:tc></w:tr>`;
+
+describe('Table Utilities', () => {
+    describe('layoutRows', () => {
+        type Cell = { text: string; colSpan?: number; rowSpan?: number };
+        const layout = (rows: Cell[][], byColumn: boolean = false) => layoutRows(
+            rows.map(cells => ({ cells, byColumn })),
+            3,
+            cell => cell
+        ).map(cells => cells.map(({ cell, column, colSpan, vMerge }) => [cell?.text ?? null, column, colSpan, vMerge ?? null]));
+
+        it('should place spanning cells and continue row spans in the rows below', () => {
+            expect(layout([
+                [{ text: 'Fruit', rowSpan: 2 }, { text: 'Apple' }, { text: '1' }],
+                [{ text: 'Pear' }, { text: '2' }],
+                [{ text: 'Total', colSpan: 2 }, { text: '3' }]
+            ])).toEqual([
+                [['Fruit', 0, 1, 'restart'], ['Apple', 1, 1, null], ['1', 2, 1, null]],
+                [[null, 0, 1, 'continue'], ['Pear', 1, 1, null], ['2', 2, 1, null]],
+                [['Total', 0, 2, null], ['3', 2, 1, null]]
+            ]);
+        });
+
+        it('should skip covered columns of rows indexed by column and fill short rows', () => {
+            expect(layout([
+                [{ text: 'A', colSpan: 2, rowSpan: 2 }, { text: 'ignored' }, { text: 'x' }],
+                [{ text: 'ignored' }, { text: 'ignored' }, { text: 'y' }]
+            ], true)).toEqual([
+                [['A', 0, 2, 'restart'], ['x', 2, 1, null]],
+                [[null, 0, 2, 'continue'], ['y', 2, 1, null]]
+            ]);
+            expect(layout([[{ text: 'Only', colSpan: 9 }], [{ text: 'Short' }]])).toEqual([
+                [['Only', 0, 3, null]],
+                [['Short', 0, 1, null], [null, 1, 1, null], [null, 2, 1, null]]
+            ]);
+        });
+    });
+
+    describe('isTableCell', () => {
+        it('should accept only value and span properties', () => {
+            expect(isTableCell({ value: 'Q1', colSpan: 3 })).toBe(true);
+            expect(isTableCell({ value: 5, label: 'x' })).toBe(false);
+            expect(isTableCell('Q1')).toBe(false);
+        });
+    });
+
+    describe('cell contents', () => {
+        it('should recognise images, paragraphs and nested tables', () => {
+            expect(isCellImage({ image: { path: 'a.png' } })).toBe(true);
+            expect(isCellParagraphs({ paragraphs: ['One', [{ text: 'Two' }]] })).toBe(true);
+            expect(isCellTable({ table: { headers: [], rows: [] } })).toBe(true);
+        });
+
+        it('should leave other values to be shown as text', () => {
+            expect(isCellImage({ image: 'a.png' })).toBe(false);
+            expect(isCellImage({ image: { path: 'a.png' }, caption: 'A' })).toBe(false);
+            expect(isCellParagraphs({ paragraphs: 'One' })).toBe(false);
+            expect(isCellTable({ table: 'parts' })).toBe(false);
+        });
+    });
+
+    describe('groupRows', () => {
+        it('should group items in order of first appearance', () => {
+            const rows = [{ region: 'North', n: 1 }, { region: 'South', n: 2 }, { region: 'North', n: 3 }];
+            const groups = groupRows(rows, row => row.region);
+
+            expect(groups.map(([key, items]) => [key, items.map(item => item.n)])).toEqual([
+                ['North', [1, 3]],
+                ['South', [2]]
+            ]);
+        });
+
+        it('should group dates by value and keep missing keys together', () => {
+            const groups = groupRows(
+                [new Date('2024-01-01'), new Date('2024-01-01'), undefined, undefined],
+                value => value
+            );
+
+            expect(groups.map(([, items]) => items.length)).toEqual([2, 2]);
+        });
+    });
+
+    describe('aggregate', () => {
+        const values = [10, '2.5', '', null, 'n/a', -4];
+
+        it('should compute aggregates over numbers and numeric strings', () => {
+            expect(aggregate('sum', values)).toBe(8.5);
+            expect(aggregate('avg', values)).toBeCloseTo(8.5 / 3);
+            expect(aggregate('min', values)).toBe(-4);
+            expect(aggregate('max', values)).toBe(10);
+        });
+
+        it('should count values that are not empty', () => {
+            expect(aggregate('count', values)).toBe(4);
+        });
+
+        it('should leave averages and extremes of no numbers empty', () => {
+            expect(aggregate('sum', [])).toBe(0);
+            expect(aggregate('avg', ['n/a'])).toBeUndefined();
+            expect(aggregate('max', [])).toBeUndefined();
+        });
+    });
+
+    describe('fitColumnWidths', () => {
+        it('should share the width left by fixed columns in proportion to content length', () => {
+            expect(fitColumnWidths([undefined, 2000, undefined], [10, 50, 30], 9360)).toEqual([1840, 2000, 5520]);
+        });
+
+        it('should take the minimum widths out before sharing so the total fits', () => {
+            const widths = fitColumnWidths([undefined, undefined], [1, 100], 10240);
+
+            expect(widths).toEqual([400, 9840]);
+            expect(widths[0] + widths[1]).toBeLessThanOrEqual(10240);
+            expect(fitColumnWidths([undefined, undefined, undefined], [1, 1, 1000], 10240)).toEqual([400, 400, 9440]);
+        });
+
+        it('should keep a minimum width when fixed columns take all the space', () => {
+            expect(fitColumnWidths([9000, undefined], [5, 0], 9000)).toEqual([9000, 400]);
+        });
+    });
+
+    describe('findPrototypeRows', () => {
+        it('should find the row with placeholders for the record', () => {
+            const xml = `<w:tbl>${row('Name')}${row('{{item.name}}')}${row('Total')}</w:tbl>`;
+            const range = findPrototypeRows(xml, 'item');
+
+            expect(xml.slice(range!.start, range!.end)).toBe(row('{{item.name}}'));
+        });
+
+        it('should include following rows for the same record, with formatters and conditions', () => {
+            const xml = `<w:tbl>${row('{{item.price | currency}}')}\n${row('{{#if item.note}}Note{{/if}}')}${row('{{other}}')}</w:tbl>`;
+            const range = findPrototypeRows(xml, 'item');
+
+            expect(xml.slice(range!.start, range!.end)).toBe(`${row('{{item.price | currency}}')}\n${row('{{#if item.note}}Note{{/if}}')}`);
+        });
+
+        it('should pick the innermost row of nested tables', () => {
+            const nested = `<w:tbl>${row('{{item.sku}}')}</w:tbl>`;
+            const xml = `<w:tbl><w:tr><w:tc>${nested}<w:p/></w:tc></w:tr></w:tbl>`;
+            const range = findPrototypeRows(xml, 'item');
+
+            expect(xml.slice(range!.start, range!.end)).toBe(row('{{item.sku}}'));
+        });
+
+        it('should ignore other names and honor custom delimiters', () => {
+            expect(findPrototypeRows(`<w:tbl>${row('{{items.name}}')}${row('{{itemCount}}')}</w:tbl>`, 'item')).toBeNull();
+            expect(findPrototypeRows(`<w:tbl>${row('[[item.name]]')}</w:tbl>`, 'item', ['[[', ']]'])).not.toBeNull();
+        });
+    });
+});
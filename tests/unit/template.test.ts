@@ -0,0 +1,211 @@
+/**
+ * Unit tests for template block utilities
+ */
+
+import { findBlock, resolveBlockRange, expandLoops, expandConditions, isTruthy } from '../../src/utils/template';
+import { replacePlaceholder } from '../../src/utils/string';
+import { PlaceholderData } from '../../src/types';
+
+const para = (text: string): string => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+const body = (...parts: string[]): string => `<w:body>${parts.join('')}</w:body>`;
+
+// Minimal renderer that only replaces string values
+const render = (fragment: string, scope: PlaceholderData): string => {
+    let result = expandLoops(expandConditions(fragment, scope), scope, render);
+    for (const [key, value] of Object.entries(scope)) {
+        if (typeof value === 'string' || typeof value === 'number') {
+            result = replacePlaceholder(result, key, String(value));
+        }
+    }
+    return result;
+};
+
+describe('Template Utilities', () => {
+    describe('findBlock', () => {
+        it('should pair opening and closing tags', () => {
+            const block = findBlock('a{{#items}}b{{/items}}c');
+            expect(block?.open.name).toBe('items');
+            expect(block?.close.start).toBe(12);
+        });
+
+        it('should return the outermost block when nested', () => {
+            const block = findBlock('{{#a}}{{#b}}{{/b}}{{/a}}');
+            expect(block?.open.name).toBe('a');
+            expect(block?.close.end).toBe(24);
+        });
+
+        it('should use custom delimiters', () => {
+            const block = findBlock('[[#items]]x[[/items]] {{#other}}', 0, ['[[', ']]']);
+            expect(block?.open.name).toBe('items');
+            expect(block?.close.text).toBe('[[/items]]');
+        });
+
+        it('should return null when there are no blocks', () => {
+            expect(findBlock('{{name}}')).toBeNull();
+        });
+
+        it('should attach {{else}} to a condition block', () => {
+            const block = findBlock('{{#if a}}x{{else}}y{{/if}}');
+            expect(block?.open.argument).toBe('a');
+            expect(block?.else?.start).toBe(10);
+        });
+
+        it('should reject {{else}} outside a condition', () => {
+            expect(() => findBlock('{{#items}}{{else}}{{/items}}')).toThrow('{{else}}');
+        });
+
+        it('should throw on mismatched tags', () => {
+            expect(() => findBlock('{{#a}}{{/b}}')).toThrow('Block {{#a}} is closed by {{/b}}');
+            expect(() => findBlock('{{#a}}')).toThrow('never closed');
+        });
+    });
+
+    describe('resolveBlockRange', () => {
+        it('should use inline content when tags share a paragraph', () => {
+            const xml = body(para('{{#items}}x{{/items}}'));
+            const block = findBlock(xml)!;
+            expect(resolveBlockRange(xml, block).inner).toBe('x');
+        });
+
+        it('should drop paragraphs that only hold a tag', () => {
+            const xml = body(para('{{#items}}'), para('row'), para('{{/items}}'));
+            const range = resolveBlockRange(xml, findBlock(xml)!);
+            expect(range.inner).toBe(para('row'));
+        });
+
+        it('should repeat a whole row when tags are in different cells', () => {
+            const row = '<w:tr><w:tc>' + para('{{#items}}A') + '</w:tc><w:tc>' + para('B{{/items}}') + '</w:tc></w:tr>';
+            const xml = `<w:tbl>${row}</w:tbl>`;
+            const range = resolveBlockRange(xml, findBlock(xml)!);
+            expect(range.inner).toBe('<w:tr><w:tc>' + para('A') + '</w:tc><w:tc>' + para('B') + '</w:tc></w:tr>');
+        });
+    });
+
+    describe('expandLoops', () => {
+        it('should repeat paragraphs for each record', () => {
+            const xml = body(para('{{#items}}'), para('{{name}}'), para('{{/items}}'));
+            const result = render(xml, { items: [{ name: 'A' }, { name: 'B' }] });
+            expect(result).toBe(body(para('A'), para('B')));
+        });
+
+        it('should repeat inline content', () => {
+            const xml = body(para('Tags: {{#tags}}{{.}} {{/tags}}'));
+            const result = render(xml, { tags: ['a', 'b'] });
+            expect(result).toBe(body(para('Tags: a b ')));
+        });
+
+        it('should fall back to outer data inside a block', () => {
+            const xml = body(para('{{#items}}{{name}}-{{currency}}{{/items}}'));
+            const result = render(xml, { currency: 'EUR', items: [{ name: 'A' }] });
+            expect(result).toBe(body(para('A-EUR')));
+        });
+
+        it('should support nested blocks', () => {
+            const xml = body(para('{{#groups}}[{{#members}}{{name}}{{/members}}]{{/groups}}'));
+            const result = render(xml, {
+                groups: [
+                    { members: [{ name: 'a' }, { name: 'b' }] },
+                    { members: [{ name: 'c' }] }
+                ]
+            });
+            expect(result).toBe(body(para('[ab][c]')));
+        });
+
+        it('should drop the tag paragraphs of nested paragraph-level blocks', () => {
+            const xml = body(
+                para('{{#groups}}'), para('{{title}}'),
+                para('{{#items}}'), para('{{name}}'), para('{{/items}}'),
+                para('{{/groups}}')
+            );
+            const result = render(xml, {
+                groups: [
+                    { title: 'G1', items: [{ name: 'a' }, { name: 'b' }] },
+                    { title: 'G2', items: [{ name: 'c' }] }
+                ]
+            });
+            expect(result).toBe(body(para('G1'), para('a'), para('b'), para('G2'), para('c')));
+        });
+
+        it('should resolve block names and conditions by path', () => {
+            const xml = body(para('{{#order.lines}}{{sku}}{{#if gift}}!{{/if}};{{/order.lines}}'));
+            const result = render(xml, { order: { lines: [{ sku: 'A', gift: true }, { sku: 'B', gift: false }] } });
+            expect(result).toBe(body(para('A!;B;')));
+        });
+
+        it('should remove the block for empty or missing data', () => {
+            const xml = body(para('before'), para('{{#items}}'), para('{{name}}'), para('{{/items}}'));
+            expect(render(xml, { items: [] })).toBe(body(para('before')));
+            expect(render(xml, {})).toBe(body(para('before')));
+        });
+
+        it('should keep a paragraph in a table cell emptied by a block', () => {
+            const xml = '<w:tbl><w:tr><w:tc>' + para('{{#items}}') + para('{{/items}}') + '</w:tc></w:tr></w:tbl>';
+            expect(render(xml, { items: [] })).toBe('<w:tbl><w:tr><w:tc><w:p/></w:tc></w:tr></w:tbl>');
+        });
+    });
+
+    describe('isTruthy', () => {
+        it('should treat empty values as false', () => {
+            expect(isTruthy(undefined)).toBe(false);
+            expect(isTruthy('')).toBe(false);
+            expect(isTruthy([])).toBe(false);
+        });
+
+        it('should treat non-empty values as true', () => {
+            expect(isTruthy('yes')).toBe(true);
+            expect(isTruthy([{ a: '1' }])).toBe(true);
+        });
+    });
+
+    describe('expandConditions', () => {
+        it('should keep or remove whole paragraphs', () => {
+            const xml = body(para('intro'), para('{{#if lateFee}}'), para('Late fee: {{lateFee}}'), para('{{/if}}'));
+            expect(render(xml, { lateFee: '5%' })).toBe(body(para('intro'), para('Late fee: 5%')));
+            expect(render(xml, {})).toBe(body(para('intro')));
+        });
+
+        it('should pick the {{else}} branch', () => {
+            const xml = body(para('{{#if vip}}'), para('Gold'), para('{{else}}'), para('Standard'), para('{{/if}}'));
+            expect(render(xml, { vip: 'yes' })).toBe(body(para('Gold')));
+            expect(render(xml, {})).toBe(body(para('Standard')));
+        });
+
+        it('should support {{#unless}}', () => {
+            const xml = body(para('{{#unless paid}}Due{{else}}Settled{{/unless}}'));
+            expect(render(xml, {})).toBe(body(para('Due')));
+            expect(render(xml, { paid: 'true' })).toBe(body(para('Settled')));
+        });
+
+        it('should remove inline runs', () => {
+            const xml = body('<w:p><w:r><w:t>Total</w:t></w:r><w:r><w:t>{{#if tax}} incl. tax{{/if}}</w:t></w:r></w:p>');
+            expect(render(xml, {})).toBe(body('<w:p><w:r><w:t>Total</w:t></w:r><w:r><w:t></w:t></w:r></w:p>'));
+        });
+
+        it('should not leave an empty paragraph behind', () => {
+            const xml = body(para('a'), para('{{#if note}}Note: {{note}}{{/if}}'), para('b'));
+            expect(render(xml, {})).toBe(body(para('a'), para('b')));
+        });
+
+        it('should remove table rows', () => {
+            const row = (text: string) => '<w:tr><w:tc>' + para(text) + '</w:tc></w:tr>';
+            const xml = `<w:tbl>${row('A')}${row('{{#if discount}}')}${row('Discount')}${row('{{/if}}')}</w:tbl>`;
+            expect(render(xml, {})).toBe(`<w:tbl>${row('A')}</w:tbl>`);
+        });
+
+        it('should evaluate conditions inside loops per element', () => {
+            const xml = body(para('{{#items}}{{name}}{{#if sale}}*{{/if}} {{/items}}'));
+            const result = render(xml, { items: [{ name: 'A', sale: 'y' }, { name: 'B' }] });
+            expect(result).toBe(body(para('A* B ')));
+        });
+
+        it('should drop the tag paragraphs of paragraph-level conditions inside loops', () => {
+            const xml = body(
+                para('{{#rows}}'), para('{{name}}'),
+                para('{{#if late}}'), para('Late'), para('{{/if}}'),
+                para('{{/rows}}')
+            );
+            const result = render(xml, { rows: [{ name: 'A', late: true }, { name: 'B' }] });
+            expect(result).toBe(body(para('A'), para('Late'), para('B')));
+        });
+    });
+});
@@ -10,7 +10,12 @@ import {
     extractRelationshipIds,
     generateUniqueRelId,
     addContentType,
-    getImageContentType
+    addContentTypeOverride,
+    getImageContentType,
+    getRelationshipsPath,
+    generateRelationship,
+    findRelationshipId,
+    numberDrawings
 } from '../../src/utils/xml';
 
 describe('XML Utilities', () => {
@@ -102,6 +107,30 @@ describe('XML Utilities', () => {
         });
     });
 
+    describe('addContentTypeOverride', () => {
+        it('should add an override once per part', () => {
+            const xml = addContentTypeOverride('<Types></Types>', '/word/numbering.xml', 'application/x');
+            expect(xml).toContain('<Override PartName="/word/numbering.xml" ContentType="application/x" />');
+            expect(addContentTypeOverride(xml, '/word/numbering.xml', 'application/x')).toBe(xml);
+        });
+    });
+
+    describe('relationships', () => {
+        it('should locate the relationships part of a part', () => {
+            expect(getRelationshipsPath('word/document.xml')).toBe('word/_rels/document.xml.rels');
+            expect(getRelationshipsPath('word/header2.xml')).toBe('word/_rels/header2.xml.rels');
+        });
+
+        it('should generate and find external relationships', () => {
+            const rel = generateRelationship('rId3', 'link', 'https://a.com/?x=1&y=2', true);
+            expect(rel).toBe('<Relationship Id="rId3" Type="link" Target="https://a.com/?x=1&amp;y=2" TargetMode="External" />');
+
+            const rels = `<Relationships>${rel}</Relationships>`;
+            expect(findRelationshipId(rels, 'link', 'https://a.com/?x=1&y=2')).toBe('rId3');
+            expect(findRelationshipId(rels, 'link', 'https://b.com')).toBeNull();
+        });
+    });
+
     describe('getImageContentType', () => {
         it('should return correct content type for known extensions', () => {
             expect(getImageContentType('png')).toBe('image/png');
@@ -118,4 +147,14 @@ describe('XML Utilities', () => {
             expect(getImageContentType('unknown')).toBe('image/png');
         });
     });
+
+    describe('numberDrawings', () => {
+        it('should number drawings on from the given ID', () => {
+            const xml = '<wp:inline><wp:docPr id="1" name="A"/></wp:inline><wp:anchor><wp:docPr name="B" id="1"/></wp:anchor>';
+            const result = numberDrawings(xml, 5);
+
+            expect(result.xml).toBe('<wp:inline><wp:docPr id="5" name="A"/></wp:inline><wp:anchor><wp:docPr name="B" id="6"/></wp:anchor>');
+            expect(result.nextId).toBe(7);
+        });
+    });
 });